@@ -7,7 +7,7 @@ const banner = {
 
 const isWatch = process.argv.includes("--watch");
 
-const ctx = await esbuild.context({
+const plugin = await esbuild.context({
   entryPoints: ["src/main.ts"],
   bundle: true,
   outfile: "main.js",
@@ -18,11 +18,24 @@ const ctx = await esbuild.context({
   external: ["obsidian"],
 });
 
+// Command-line entry point; shares the ranking core but never imports obsidian
+const cli = await esbuild.context({
+  entryPoints: ["src/cli.ts"],
+  bundle: true,
+  outfile: "cli.js",
+  platform: "node",
+  format: "cjs",
+  target: "node18",
+  banner: { js: "#!/usr/bin/env node" },
+});
+
+const contexts = [plugin, cli];
+
 if (isWatch) {
-  await ctx.watch();
+  await Promise.all(contexts.map((ctx) => ctx.watch()));
   console.log("👀 Watching for changes…");
 } else {
-  await ctx.rebuild();
-  await ctx.dispose();
+  await Promise.all(contexts.map((ctx) => ctx.rebuild()));
+  await Promise.all(contexts.map((ctx) => ctx.dispose()));
   console.log("✅ Build complete");
 }
@@ -0,0 +1,65 @@
+import { App, TFile } from "obsidian";
+import { TaskItem } from "./types";
+import { blockIdOf, locateTaskLine } from "./directTaskCollection";
+import { LineChange } from "./journal";
+
+export interface BlockIdChange extends LineChange {
+  task: TaskItem;
+  blockId: string;
+}
+
+function generateUniqueTaskBlockId(existingIds: Set<string>): string {
+  while (true) {
+    const rand = Math.random().toString(36).slice(2, 8);
+    const candidate = `t-${rand}`;
+    if (!existingIds.has(candidate)) {
+      existingIds.add(candidate);
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Works out, without writing anything, which lines need a block ID for the
+ * given tasks to be embedded. Tasks that already have one, or whose line
+ * can no longer be found, produce no change.
+ */
+export async function planBlockIds(app: App, tasks: TaskItem[]): Promise<BlockIdChange[]> {
+  const changes: BlockIdChange[] = [];
+  const byNote = new Map<string, TaskItem[]>();
+  for (const task of tasks.filter((t) => !t.blockId)) {
+    byNote.set(task.note, [...(byNote.get(task.note) ?? []), task]);
+  }
+
+  for (const [note, noteTasks] of byNote) {
+    const file = app.vault.getAbstractFileByPath(note);
+    if (!(file instanceof TFile)) continue;
+
+    const lines = (await app.vault.read(file)).split("\n");
+
+    // Track IDs that already exist in this file
+    const existingIds = new Set<string>();
+    for (const l of lines) {
+      const id = blockIdOf(l);
+      if (id) existingIds.add(id);
+    }
+
+    for (const task of noteTasks) {
+      const index = locateTaskLine(lines, task);
+      if (index === -1) continue;
+      const before = lines[index] ?? "";
+      const blockId = generateUniqueTaskBlockId(existingIds);
+      changes.push({
+        path: note,
+        line: index,
+        before,
+        // Keep a CRLF line's \r at the end
+        after: `${before.trimEnd()}  ^${blockId}${before.endsWith("\r") ? "\r" : ""}`,
+        task,
+        blockId,
+      });
+    }
+  }
+
+  return changes;
+}
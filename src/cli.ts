@@ -0,0 +1,257 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseArgs } from "util";
+import { AiTaskPickerSettings, resolveSettings } from "./settings";
+import { RankingProfile, findProfile } from "./profiles";
+import { createNodeVault } from "./nodeVault";
+import { collectDependencyContext, collectTasksFromVault } from "./directTaskCollection";
+import { DependencyGraph, blockingChain, buildDependencyGraph, unblockedBy } from "./dependencies";
+import { resolvePriorities } from "./priorities";
+import { applyTaskFilters } from "./filters";
+import { rankTasks } from "./ranker";
+import { RankedEntry, renderRankedTasks } from "./output";
+import { TaskItem } from "./types";
+import { ensureMd, normalizeBlockId, parseDuration } from "./utils";
+import { taskEstimate } from "./timeBudget";
+import { resolveModel } from "./providers";
+import { costOf, createUsageMeter, formatCost } from "./usage";
+
+const USAGE = `Usage: ai-task-picker rank --vault <dir> [options]
+
+Ranks open tasks in an Obsidian vault on disk, using the plugin's settings.
+
+Options:
+  --vault <dir>          Vault root (required)
+  --priorities <note>    Note to read priorities from, as if it were the active note
+  -p, --profile <name>   Ranking profile by name or ID (default: the first profile)
+  -n, --count <n>        Number of tasks (default: the profile's default count)
+  -b, --budget <time>    Fill a time budget instead, e.g. 90m, 2h or 1h30m
+  --format <format>      json or markdown (default: markdown)
+  --config <file>        Plugin data.json (default: <vault>/.obsidian/plugins/ai-task-picker/data.json)
+  --offline              Rank with the offline heuristic, no LLM call
+  -h, --help             Show this help
+
+The API key can also be set with AI_TASK_PICKER_API_KEY.`;
+
+type OutputMode = "json" | "markdown";
+
+// Thrown for bad arguments; printed with the usage text and exit code 2
+class UsageError extends Error {}
+
+function expandHome(dir: string): string {
+  return dir === "~" || dir.startsWith("~/") ? path.join(os.homedir(), dir.slice(1)) : dir;
+}
+
+async function loadSettings(configPath: string, explicit: boolean): Promise<AiTaskPickerSettings> {
+  let data: unknown = null;
+  try {
+    data = JSON.parse(await fs.readFile(configPath, "utf8"));
+  } catch (e: unknown) {
+    // Without the plugin's data.json the defaults apply, unless --config named a file
+    if (explicit || (e as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      throw new Error(`Could not read settings from ${configPath}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  const settings = resolveSettings(data);
+  if (process.env.AI_TASK_PICKER_API_KEY) settings.apiKey = process.env.AI_TASK_PICKER_API_KEY;
+  return settings;
+}
+
+// Vault-relative note path with forward slashes, for `--priorities`
+function notePathInVault(vaultRoot: string, note: string): string {
+  const absolute = path.resolve(vaultRoot, expandHome(note));
+  const relative = path.relative(vaultRoot, absolute);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new UsageError(`--priorities must point inside the vault: ${note}`);
+  }
+  return ensureMd(relative.split(path.sep).join("/"));
+}
+
+function toJson(
+  entries: RankedEntry[],
+  profile: RankingProfile,
+  ranAt: string,
+  budgetMinutes: number | null,
+  dependencies: DependencyGraph
+): string {
+  const estimates = entries.map(({ task, ranking }) => taskEstimate(task, ranking));
+  return JSON.stringify(
+    {
+      ranAt,
+      profile: profile.name,
+      budgetMinutes,
+      totalMinutes: estimates.reduce((sum, e) => sum + e.minutes, 0),
+      tasks: entries.map(({ task, ranking }, i) => ({
+        id: task.id,
+        note: task.note,
+        line: task.line + 1,
+        text: task.text,
+        description: task.description,
+        context: task.context,
+        headingPath: task.headingPath,
+        parents: task.parents,
+        subtasks: task.subtasks,
+        due: task.due,
+        priority: task.priority,
+        status: task.status,
+        tags: task.tags,
+        reason: ranking.reason,
+        advances: ranking.advances,
+        estimateMinutes: estimates[i]?.minutes ?? null,
+        estimateSource: estimates[i]?.source ?? null,
+        blockedBy: blockingChain(dependencies, task).map((t) => t.description || t.text),
+        unblocks: unblockedBy(dependencies, task).map((t) => t.description || t.text),
+      })),
+      dependencyProblems: dependencies.problems,
+    },
+    null,
+    2
+  );
+}
+
+async function rank(argv: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      vault: { type: "string" },
+      priorities: { type: "string" },
+      profile: { type: "string", short: "p" },
+      count: { type: "string", short: "n" },
+      budget: { type: "string", short: "b" },
+      format: { type: "string" },
+      config: { type: "string" },
+      offline: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (!values.vault) throw new UsageError("--vault is required.");
+
+  const format = (values.format ?? "markdown") as OutputMode;
+  if (format !== "json" && format !== "markdown") {
+    throw new UsageError(`Unknown format "${values.format}". Use json or markdown.`);
+  }
+
+  const vaultRoot = path.resolve(expandHome(values.vault));
+  const configPath = values.config
+    ? path.resolve(expandHome(values.config))
+    : path.join(vaultRoot, ".obsidian", "plugins", "ai-task-picker", "data.json");
+  const settings = await loadSettings(configPath, Boolean(values.config));
+  if (values.offline) settings.rankingMode = "heuristic";
+
+  const profile = values.profile
+    ? findProfile(settings.profiles, values.profile)
+    : settings.profiles[0] ?? null;
+  if (!profile) throw new UsageError(`No profile named "${values.profile}".`);
+
+  let count = profile.defaultCount;
+  if (values.count != null) {
+    count = Math.floor(Number(values.count));
+    if (!Number.isFinite(count) || count < 1) throw new UsageError("--count must be a number ≥ 1.");
+  }
+  let budgetMinutes: number | null = null;
+  if (values.budget != null) {
+    if (values.count != null) throw new UsageError("Use either --count or --budget, not both.");
+    budgetMinutes = parseDuration(values.budget);
+    if (!budgetMinutes) throw new UsageError(`Can't read --budget "${values.budget}". Use e.g. 90m or 2h.`);
+  }
+
+  const vault = createNodeVault(vaultRoot);
+  const activePath = values.priorities ? notePathInVault(vaultRoot, values.priorities) : null;
+  const log = (message: string) => process.stderr.write(`${message}\n`);
+
+  log("Collecting open tasks…");
+  const collected = await collectTasksFromVault(vault, profile.folders, activePath, settings.taskStatuses);
+  // A ⛔ may point outside the profile's folders
+  const dependencies = buildDependencyGraph(await collectDependencyContext(vault, settings.taskStatuses));
+  for (const problem of dependencies.problems) log(`Warning: ${problem}`);
+  const { tasks } = applyTaskFilters(collected, settings.filters, new Date(), dependencies);
+  if (!tasks.length) {
+    throw new Error(collected.length ? "No open tasks match the filter rules." : "No open tasks found.");
+  }
+
+  const priorities = await resolvePriorities(vault, profile.priorities, activePath);
+  if (!priorities.text.trim()) {
+    throw new Error(["No priorities found.", ...priorities.missing.map((m) => `  ${m}`)].join("\n"));
+  }
+
+  // Ctrl-C aborts the request instead of leaving it running
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  log(`Ranking ${tasks.length} tasks…`);
+  const meter = createUsageMeter();
+  const ranked = await rankTasks(
+    settings,
+    {
+      prioritiesText: priorities.text,
+      tasks,
+      maxTasks: budgetMinutes ? tasks.length : count,
+      budgetMinutes,
+      rankingPrompt: profile.rankingPrompt,
+      model: profile.model,
+      dependencies,
+      signal: controller.signal,
+      onUsage: (usage) => meter.add(usage),
+    },
+    log
+  );
+  const usage = meter.record({ provider: settings.provider, model: resolveModel(settings, profile.model), tasks: tasks.length });
+  if (usage) {
+    const cost = costOf(usage, settings.modelPrices);
+    log(
+      `Used ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens in ${usage.requests} request(s)` +
+        (cost != null ? ` (~${formatCost(cost)}).` : ".")
+    );
+  }
+
+  const byId = new Map<string, TaskItem>(tasks.map((t) => [normalizeBlockId(t.id), t]));
+  const entries: RankedEntry[] = [];
+  for (const ranking of ranked) {
+    const task = byId.get(normalizeBlockId(ranking.id));
+    if (task) entries.push({ task, ranking });
+  }
+
+  const ranAt = new Date();
+  // Nothing is written to the vault, so markdown output copies the task lines
+  process.stdout.write(
+    format === "json"
+      ? `${toJson(entries, profile, ranAt.toISOString(), budgetMinutes, dependencies)}\n`
+      : renderRankedTasks(
+          entries,
+          { output: "copy", rationale: settings.rationaleFormat, budgetMinutes, dependencies },
+          ranAt
+        )
+  );
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  try {
+    if (command === "rank") {
+      await rank(rest);
+      return 0;
+    }
+    if (!command || command === "--help" || command === "-h") {
+      process.stdout.write(`${USAGE}\n`);
+      return command ? 0 : 2;
+    }
+    throw new UsageError(`Unknown command "${command}".`);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e);
+    process.stderr.write(`ai-task-picker: ${msg}\n`);
+    if (e instanceof UsageError || (e as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS")) {
+      process.stderr.write(`\n${USAGE}\n`);
+      return 2;
+    }
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
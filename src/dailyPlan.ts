@@ -0,0 +1,69 @@
+import { App, moment } from "obsidian";
+import { DailyPlanSettings } from "./settings";
+import { normalizeHeadingText } from "./priorities";
+import { ensureMd, globToRegExp, normalizeFolderPath } from "./utils";
+
+interface DailyNoteFormat {
+  folder: string;
+  format: string; // moment format of the file name
+}
+
+/**
+ * Where daily notes are created, from the Periodic Notes plugin if it
+ * handles daily notes, otherwise from the core Daily Notes plugin. Neither
+ * exposes a public API, so this reads their settings defensively.
+ */
+function dailyNoteFormat(app: App): DailyNoteFormat | null {
+  const periodic = (app as any).plugins?.getPlugin?.("periodic-notes")?.settings?.daily;
+  if (periodic?.enabled) {
+    return { folder: periodic.folder ?? "", format: periodic.format || "YYYY-MM-DD" };
+  }
+  const daily = (app as any).internalPlugins?.getPluginById?.("daily-notes");
+  if (daily?.enabled) {
+    const options = daily.instance?.options ?? {};
+    return { folder: options.folder ?? "", format: options.format || "YYYY-MM-DD" };
+  }
+  return null;
+}
+
+/**
+ * Whether a newly created note should get a daily plan: today's daily note
+ * (older or future daily notes are left alone), or any note matching the
+ * configured path glob.
+ */
+export function isDailyPlanTarget(
+  app: App,
+  settings: DailyPlanSettings,
+  path: string,
+  now: Date = new Date()
+): boolean {
+  if (settings.match === "pattern") {
+    return Boolean(settings.pathPattern.trim()) && globToRegExp(settings.pathPattern).test(path);
+  }
+  const daily = dailyNoteFormat(app);
+  if (!daily) return false;
+  const folder = normalizeFolderPath(daily.folder);
+  const name = ensureMd(moment(now).format(daily.format));
+  return path === (folder ? `${folder}/${name}` : name);
+}
+
+/**
+ * Inserts `block` right below `heading`, or appends the heading and block
+ * to the end of the note if the heading isn't there.
+ */
+export function insertUnderHeading(content: string, heading: string, block: string): string {
+  const lines = content.split("\n");
+  const wanted = normalizeHeadingText(heading);
+  const index = lines.findIndex((line) => {
+    const m = line.match(/^#{1,6}\s+(.*)$/);
+    return Boolean(m) && normalizeHeadingText(m?.[1] ?? "") === wanted;
+  });
+
+  const blockLines = block.replace(/\n$/, "").split("\n");
+  if (index !== -1) {
+    lines.splice(index + 1, 0, ...blockLines);
+    return lines.join("\n");
+  }
+  const base = content.replace(/\s*$/, "");
+  return `${base ? `${base}\n\n` : ""}## ${heading}\n${blockLines.join("\n")}\n`;
+}
@@ -0,0 +1,168 @@
+import { TaskItem } from "./types";
+
+/** Every open task in the vault plus the 🆔 ids of completed or cancelled tasks. */
+export interface DependencyContext {
+  openTasks: TaskItem[];
+  closedIds: Set<string>;
+}
+
+export interface DependencyGraph {
+  blockedBy: Map<string, TaskItem[]>; // task key → open tasks it waits on directly
+  waiting: Map<string, TaskItem[]>;   // task key → open tasks waiting on it directly
+  cycles: TaskItem[][];
+  problems: string[];                 // cycles and dangling references, for the user
+}
+
+// Block IDs get stamped after ranking, so tasks are keyed by their position
+export function dependencyKey(task: TaskItem): string {
+  return `${task.note}:${task.line}`;
+}
+
+function label(task: TaskItem): string {
+  return task.description || task.text;
+}
+
+function pushTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+/**
+ * Links open tasks through their `⛔` references to other tasks' `🆔`. A
+ * reference to a completed task is satisfied; one that matches no task is
+ * reported and ignored rather than blocking. Tasks on a cycle stay blocked
+ * (none of them can start), and each cycle is reported once.
+ */
+export function buildDependencyGraph(context: DependencyContext): DependencyGraph {
+  const byId = new Map<string, TaskItem[]>();
+  for (const task of context.openTasks) {
+    if (task.dependencyId) pushTo(byId, task.dependencyId, task);
+  }
+
+  const graph: DependencyGraph = { blockedBy: new Map(), waiting: new Map(), cycles: [], problems: [] };
+  for (const [id, tasks] of byId) {
+    if (tasks.length > 1) graph.problems.push(`🆔 ${id} is used by ${tasks.length} open tasks.`);
+  }
+
+  for (const task of context.openTasks) {
+    for (const ref of task.dependsOn) {
+      const blockers = byId.get(ref);
+      if (!blockers) {
+        if (!context.closedIds.has(ref)) {
+          graph.problems.push(`“${label(task)}” (${task.note}) waits on ⛔ ${ref}, which matches no task.`);
+        }
+        continue;
+      }
+      for (const blocker of blockers) {
+        if (blocker === task) continue;
+        pushTo(graph.blockedBy, dependencyKey(task), blocker);
+        pushTo(graph.waiting, dependencyKey(blocker), task);
+      }
+    }
+  }
+
+  graph.cycles = findCycles(context.openTasks, graph);
+  for (const cycle of graph.cycles) {
+    const names = cycle.map((t) => `“${label(t)}”`);
+    graph.problems.push(`Dependency cycle: ${[...names, names[0]].join(" → ")}. None of these tasks can start.`);
+  }
+  return graph;
+}
+
+// Depth-first search over "waits on" edges; a back edge closes a cycle
+function findCycles(tasks: TaskItem[], graph: DependencyGraph): TaskItem[][] {
+  const state = new Map<string, "visiting" | "done">();
+  const path: TaskItem[] = [];
+  const cycles: TaskItem[][] = [];
+
+  const visit = (task: TaskItem): void => {
+    const key = dependencyKey(task);
+    state.set(key, "visiting");
+    path.push(task);
+    for (const blocker of graph.blockedBy.get(key) ?? []) {
+      const seen = state.get(dependencyKey(blocker));
+      if (seen === "visiting") {
+        cycles.push(path.slice(path.indexOf(blocker)));
+      } else if (!seen) {
+        visit(blocker);
+      }
+    }
+    path.pop();
+    state.set(key, "done");
+  };
+
+  for (const task of tasks) {
+    if (!state.has(dependencyKey(task))) visit(task);
+  }
+  return cycles;
+}
+
+export function isBlocked(graph: DependencyGraph, task: TaskItem): boolean {
+  return (graph.blockedBy.get(dependencyKey(task))?.length ?? 0) > 0;
+}
+
+/** Open tasks that can start once `task` is done, directly or further down the chain. */
+export function unblockedBy(graph: DependencyGraph, task: TaskItem): TaskItem[] {
+  const seen = new Set<string>([dependencyKey(task)]);
+  const result: TaskItem[] = [];
+  const queue = [...(graph.waiting.get(dependencyKey(task)) ?? [])];
+  while (queue.length) {
+    const next = queue.shift() as TaskItem;
+    const key = dependencyKey(next);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(next);
+    queue.push(...(graph.waiting.get(key) ?? []));
+  }
+  return result;
+}
+
+// Chains longer than this are cut short in prompts and output
+const MAX_CHAIN = 5;
+
+/**
+ * The longest run of tasks following `edges` from `task`, e.g. what it
+ * unblocks in turn, or what it waits on in turn. Stops at a repeat, so
+ * cycles end the chain.
+ */
+function longestChain(
+  edges: Map<string, TaskItem[]>,
+  task: TaskItem,
+  seen: Set<string> = new Set([dependencyKey(task)]),
+  depth = MAX_CHAIN
+): TaskItem[] {
+  if (depth === 0) return [];
+  let best: TaskItem[] = [];
+  for (const next of edges.get(dependencyKey(task)) ?? []) {
+    const key = dependencyKey(next);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const chain = [next, ...longestChain(edges, next, seen, depth - 1)];
+    seen.delete(key);
+    if (chain.length > best.length) best = chain;
+  }
+  return best;
+}
+
+export function unblockingChain(graph: DependencyGraph, task: TaskItem): TaskItem[] {
+  return longestChain(graph.waiting, task);
+}
+
+export function blockingChain(graph: DependencyGraph, task: TaskItem): TaskItem[] {
+  return longestChain(graph.blockedBy, task);
+}
+
+/** One line per task describing where it sits in a dependency chain, or null. */
+export function describeDependencies(graph: DependencyGraph, task: TaskItem): string | null {
+  const blockers = blockingChain(graph, task);
+  if (blockers.length) {
+    return `blocked by ${blockers.map((t) => `“${label(t)}”`).join(" ← ")}`;
+  }
+  const waiting = unblockedBy(graph, task);
+  if (!waiting.length) return null;
+  const chain = unblockingChain(graph, task).map((t) => `“${label(t)}”`).join(" → ");
+  return waiting.length === 1
+    ? `unblocks ${chain}`
+    : `unblocks ${waiting.length} tasks: ${chain}`;
+}
@@ -1,166 +1,291 @@
-import { App, TFile, TFolder } from "obsidian";
 import { TaskItem } from "./types";
-import { AiTaskPickerSettings } from "./settings";
-import { normalizeBlockId, ensureMd } from "./utils";
-
-async function getAllMarkdownFilesUnderFolder(
-  app: App,
-  folderPath: string
-): Promise<TFile[]> {
-  const results: TFile[] = [];
-  const root = app.vault.getAbstractFileByPath(folderPath);
-
-  async function visit(node: any): Promise<void> {
-    if (!node) return;
-
-    // Folder
-    if (node?.children && Array.isArray(node.children)) {
-      for (const child of node.children) {
-        await visit(child);
-      }
-      return;
-    }
-
-    // File
-    if (node instanceof TFile && node.extension === "md") {
-      results.push(node);
-    }
-  }
+import { normalizeBlockId, ensureMd, hashText, isUnderFolder } from "./utils";
+import { parseTaskLine } from "./taskMetadata";
+import { VaultAdapter } from "./vault";
+import { DependencyContext } from "./dependencies";
+import { managedBlockLines } from "./managedBlock";
+import { OutlineHeading, OutlineItem, TaskPlacement, frontmatterAliases, placeTasks } from "./outline";
+import { DEFAULT_TASK_STATUSES, TaskStatusTable, isActionable, statusOf } from "./taskStatus";
 
-  await visit(root);
-  return results;
+/** A checkbox line split into its parts, so it can be rewritten without disturbing the rest. */
+export interface TaskLineToken {
+  quote: string;  // blockquote / callout markers, e.g. "> "
+  indent: string; // whitespace between the quote markers and the bullet
+  bullet: string; // "-", "*", "+", "1." or "1)"
+  symbol: string; // the character between the brackets
+  body: string;   // text after the checkbox, metadata and block ID included
+  eol: string;    // "\r" on CRLF lines
 }
 
-function generateUniqueTaskBlockId(existingIds: Set<string>): string {
-  while (true) {
-    const rand = Math.random().toString(36).slice(2, 8);
-    const candidate = `t-${rand}`;
-    if (!existingIds.has(candidate)) {
-      existingIds.add(candidate);
-      return candidate;
-    }
-  }
+const QUOTE = "((?:[ \\t]*>[ \\t]?)*)";
+const BULLET = "([ \\t]*)([-*+]|\\d{1,9}[.)])[ \\t]+";
+const TASK_LINE = new RegExp(`^${QUOTE}${BULLET}\\[([^\\]])\\][ \\t]+(.*?)[ \\t]*(\\r?)$`);
+const LIST_ITEM = new RegExp(`^${QUOTE}${BULLET}`);
+const HEADING = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*\r?$/;
+const FENCE = /^[ \t]*(`{3,}|~{3,})/;
+const FENCE_CLOSE = /^[ \t]*(`{3,}|~{3,})[ \t]*\r?$/;
+const BLOCK_ID = /\^([A-Za-z0-9\-_]+)\s*$/;
+
+export function tokenizeTaskLine(line: string): TaskLineToken | null {
+  const m = line.match(TASK_LINE);
+  if (!m || !m[5]) return null;
+  return {
+    quote: m[1] ?? "",
+    indent: m[2] ?? "",
+    bullet: m[3] ?? "-",
+    symbol: m[4] ?? " ",
+    body: m[5],
+    eol: m[6] ?? "",
+  };
 }
 
-function isHeading(line: string): boolean {
-  return /^#{1,6}\s+/.test(line);
+export function formatTaskLine(token: TaskLineToken): string {
+  return `${token.quote}${token.indent}${token.bullet} [${token.symbol}] ${token.body}${token.eol}`;
 }
 
-function headingText(line: string): string {
-  return line.replace(/^#{1,6}\s+/, "").trim();
+export function isTaskLine(line: string): boolean {
+  return tokenizeTaskLine(line) != null;
 }
 
-function parseCreatedDateFromLine(line: string): string | null {
-  // Pattern 1: created:: YYYY-MM-DD
-  let m = line.match(/created::\s*(\d{4}-\d{2}-\d{2})/);
-  if (m) return m[1] ?? null;
+export function blockIdOf(line: string): string | null {
+  const m = line.match(BLOCK_ID);
+  return m && m[1] ? m[1] : null;
+}
 
-  // Pattern 2: ➕ YYYY-MM-DD
-  m = line.match(/➕\s*(\d{4}-\d{2}-\d{2})/);
-  if (m) return m[1] ?? null;
+function quoteDepth(quote: string): number {
+  return (quote.match(/>/g) ?? []).length;
+}
 
-  return null;
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, "    ").length;
 }
 
-async function collectTasksFromFile(
-  app: App,
-  file: TFile,
-  activeFile: TFile | null
-): Promise<TaskItem[]> {
-  // Don't collect from the active file
-  if (activeFile && file.path === activeFile.path) {
-    return [];
+/**
+ * Lines that can't hold tasks: frontmatter, fenced code blocks (also inside
+ * callouts), `%%` comment blocks and our own managed blocks.
+ */
+export function excludedLines(lines: string[]): Set<number> {
+  const excluded = managedBlockLines(lines);
+  let start = 0;
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    if (end !== -1) {
+      for (let i = 0; i <= end; i++) excluded.add(i);
+      start = end + 1;
+    }
   }
 
-  const content = await app.vault.read(file);
-  const lines = content.split("\n");
-
-  let mutated = false;
-  const tasks: TaskItem[] = [];
+  let fence: string | null = null; // the opening fence, closed by a run at least as long
+  let inComment = false;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+    const unquoted = line.replace(/^(?:[ \t]*>[ \t]?)+/, "");
 
-  // Track IDs that already exist in this file
-  const existingIds = new Set<string>();
-  for (const l of lines) {
-    const m = l.match(/\^([A-Za-z0-9\-_]+)\s*$/);
-    if (m && m[1]) existingIds.add(m[1]);
+    if (fence) {
+      excluded.add(i);
+      const close = unquoted.match(FENCE_CLOSE)?.[1];
+      if (close && close[0] === fence[0] && close.length >= fence.length) fence = null;
+      continue;
+    }
+    if (inComment) {
+      excluded.add(i);
+      if (line.includes("%%")) inComment = false;
+      continue;
+    }
+    const open = unquoted.match(FENCE)?.[1];
+    if (open) {
+      fence = open;
+      excluded.add(i);
+      continue;
+    }
+    // An unmatched %% opens a comment that runs until the next %%
+    if ((line.match(/%%/g) ?? []).length % 2 === 1) {
+      inComment = true;
+      excluded.add(i);
+    }
   }
+  return excluded;
+}
 
-  let currentHeading: string | null = null;
+/**
+ * Reads list items and headings from note content, nesting items by
+ * indentation within the same blockquote depth. This mirrors what the
+ * metadata cache provides, for notes it hasn't parsed and for the command
+ * line. Excluded regions are skipped; headings inside callouts don't count.
+ */
+export function parseOutline(lines: string[]): { items: OutlineItem[]; headings: OutlineHeading[] } {
+  const items: OutlineItem[] = [];
+  const headings: OutlineHeading[] = [];
+  const excluded = excludedLines(lines);
+  let open: Array<{ line: number; indent: number; depth: number }> = [];
 
   for (let i = 0; i < lines.length; i++) {
-    let line = lines[i] ?? "";
-
-    // Track the current heading context
-    if (isHeading(line)) {
-      currentHeading = headingText(line);
-    }
+    const line = lines[i] ?? "";
+    if (excluded.has(i) || !line.trim()) continue;
 
-    // Match open/unchecked task (supports indentation)
-    const taskMatch = line.match(/^\s*[-*]\s+\[\s*\]\s+(.+)$/);
-    if (!taskMatch) {
+    const heading = line.match(HEADING);
+    if (heading && heading[1]) {
+      headings.push({ line: i, level: heading[1].length, text: (heading[2] ?? "").trim() });
+      open = [];
       continue;
     }
 
-    // Does it already have ^t-xxxxxx at the end?
-    let blockIdMatch = line.match(/\^([A-Za-z0-9\-_]+)\s*$/);
-    let blockId = blockIdMatch && blockIdMatch[1] ? blockIdMatch[1] : null;
-
-    if (!blockId) {
-      blockId = generateUniqueTaskBlockId(existingIds);
-      line = line + "  ^" + blockId;
-      lines[i] = line;
-      mutated = true;
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const depth = quoteDepth(item[1] ?? "");
+      const indent = indentWidth(item[2] ?? "");
+      if (open.length && open[open.length - 1]?.depth !== depth) open = [];
+      while (open.length && (open[open.length - 1]?.indent ?? 0) >= indent) open.pop();
+      items.push({
+        line: i,
+        parent: open[open.length - 1]?.line ?? null,
+        status: tokenizeTaskLine(line)?.symbol ?? null,
+      });
+      open.push({ line: i, indent, depth });
+      continue;
     }
 
-    // Build clean text: strip bullet, checkbox, and block ID
-    const taskText = line
-      .replace(/^\s*[-*]\s+\[\s*\]\s+/, "")
-      .replace(/\^([A-Za-z0-9\-_]+)\s*$/, "")
-      .trim();
-
-    // Parse created date markers
-    const created = parseCreatedDateFromLine(line);
-
-    tasks.push({
-      id: normalizeBlockId(blockId),
-      note: ensureMd(file.path),
-      text: taskText,
-      context: currentHeading,
-      status: "open",
-      created,
-    });
+    // An unindented paragraph ends the list; indented lines continue an item
+    if (!/^\s/.test(line.replace(/^(?:[ \t]*>[ \t]?)+/, ""))) open = [];
   }
+  return { items, headings };
+}
 
-  if (mutated) {
-    const newContent = lines.join("\n");
-    await app.vault.modify(file, newContent);
-    
-    // Wait for Obsidian to index the new block IDs
-    await new Promise(resolve => setTimeout(resolve, 100));
+/**
+ * Finds the line of a collected task in (possibly changed) note content:
+ * by block ID if it has one, else its collected line number, else the first
+ * task line with the same text. Returns -1 if it is gone.
+ */
+export function locateTaskLine(lines: string[], task: TaskItem): number {
+  if (task.blockId) {
+    return lines.findIndex((line) => blockIdOf(line) === task.blockId);
   }
+  const matches = (line: string) =>
+    isTaskLine(line) && !blockIdOf(line) && line.includes(task.text);
+  if (matches(lines[task.line] ?? "")) return task.line;
+  return lines.findIndex(matches);
+}
 
-  return tasks;
+// Stand-in ID for tasks without a block ID. Only stable while the line stays
+// put, which is long enough to rank and then stamp a real block ID.
+export function syntheticTaskId(path: string, line: number): string {
+  return `L-${hashText(`${ensureMd(path)}:${line}`)}`;
 }
 
-export async function collectAllOpenTasksDirect(
-  app: App,
-  settings: AiTaskPickerSettings,
-  activeFile: TFile | null
-): Promise<TaskItem[]> {
-  const allTasks: TaskItem[] = [];
-  const folderPaths = settings.folders ?? [];
+const NO_PLACEMENT: TaskPlacement = { headingPath: [], parents: [], parentTags: [], subtasks: { total: 0, open: 0 } };
 
-  for (const folderPath of folderPaths) {
-    const trimmedPath = folderPath.trim().replace(/^\/+|\/+$/g, "");
-    if (!trimmedPath) continue;
+export function noteTitleOf(path: string): string {
+  return (path.split("/").pop() ?? path).replace(/\.md$/i, "");
+}
 
-    const files = await getAllMarkdownFilesUnderFolder(app, trimmedPath);
+/**
+ * Builds a TaskItem from one task line of any status. Read-only: tasks
+ * without a block ID get a synthetic ID until one is written by
+ * `ensureBlockIds`.
+ */
+export function buildTaskItem(
+  path: string,
+  line: string,
+  lineNumber: number,
+  placement: TaskPlacement = NO_PLACEMENT,
+  noteAliases: string[] = [],
+  statuses: TaskStatusTable = DEFAULT_TASK_STATUSES
+): TaskItem | null {
+  const token = tokenizeTaskLine(line);
+  if (!token) return null;
 
-    for (const file of files) {
-      const perFile = await collectTasksFromFile(app, file, activeFile);
-      allTasks.push(...perFile);
-    }
+  const blockId = blockIdOf(token.body);
+
+  // Clean text: the body without its block ID
+  const taskText = token.body.replace(BLOCK_ID, "").trim();
+  if (!taskText) return null;
+
+  // Parse emoji and Dataview metadata
+  const { description, metadata } = parseTaskLine(taskText);
+
+  return {
+    id: blockId ? normalizeBlockId(blockId) : syntheticTaskId(path, lineNumber),
+    blockId: blockId ? normalizeBlockId(blockId) : null,
+    note: ensureMd(path),
+    line: lineNumber,
+    text: taskText,
+    description,
+    context: placement.headingPath[placement.headingPath.length - 1] ?? null,
+    headingPath: placement.headingPath,
+    parents: placement.parents,
+    parentTags: placement.parentTags,
+    subtasks: { ...placement.subtasks },
+    noteTitle: noteTitleOf(path),
+    noteAliases,
+    status: statusOf(token.symbol, statuses),
+    statusSymbol: token.symbol,
+    ...metadata,
+  };
+}
+
+// Fallback for files the metadata cache hasn't parsed yet. Returns tasks of every status.
+export function parseTasksFromContent(
+  path: string,
+  content: string,
+  noteAliases: string[] = [],
+  statuses: TaskStatusTable = DEFAULT_TASK_STATUSES
+): TaskItem[] {
+  const lines = content.split("\n");
+  const { items, headings } = parseOutline(lines);
+  const placements = placeTasks(lines, items, headings, statuses);
+  const tasks: TaskItem[] = [];
+
+  for (const item of items) {
+    if (item.status == null) continue;
+    const task = buildTaskItem(path, lines[item.line] ?? "", item.line, placements.get(item.line), noteAliases, statuses);
+    if (task) tasks.push(task);
   }
 
-  return allTasks;
+  return tasks;
+}
+
+/** Splits tasks into the ones to rank and the 🆔 ids of closed ones. */
+export function toDependencyContext(tasks: TaskItem[]): DependencyContext {
+  const context: DependencyContext = { openTasks: [], closedIds: new Set() };
+  for (const task of tasks) {
+    if (isActionable(task.status)) context.openTasks.push(task);
+    else if (task.dependencyId) context.closedIds.add(task.dependencyId);
+  }
+  return context;
+}
+
+/**
+ * Reads every note under `folders` and parses its open and in-progress
+ * tasks. The plugin keeps a live index instead; this is for hosts without
+ * a metadata cache.
+ */
+export async function collectTasksFromVault(
+  vault: VaultAdapter,
+  folders: string[],
+  excludePath: string | null,
+  statuses: TaskStatusTable = DEFAULT_TASK_STATUSES
+): Promise<TaskItem[]> {
+  const tasks: TaskItem[] = [];
+  for (const path of await vault.listMarkdownFiles()) {
+    if (path === excludePath) continue;
+    if (!folders.some((folder) => isUnderFolder(path, folder))) continue;
+    const content = await vault.read(path);
+    if (content == null) continue;
+    const aliases = frontmatterAliases(await vault.frontmatter(path));
+    tasks.push(...parseTasksFromContent(path, content, aliases, statuses));
+  }
+  return tasks.filter((task) => isActionable(task.status));
+}
+
+// Dependencies can cross folders, so this reads the whole vault
+export async function collectDependencyContext(
+  vault: VaultAdapter,
+  statuses: TaskStatusTable = DEFAULT_TASK_STATUSES
+): Promise<DependencyContext> {
+  const tasks: TaskItem[] = [];
+  for (const path of await vault.listMarkdownFiles()) {
+    const content = await vault.read(path);
+    if (content != null) tasks.push(...parseTasksFromContent(path, content, [], statuses));
+  }
+  return toDependencyContext(tasks);
 }
@@ -24,3 +24,40 @@ export function insertTextAtCursor(
   editor.setCursor(endPosition);
   editor.scrollIntoView({ from: endPosition, to: endPosition }, true);
 }
+
+/**
+ * Replaces lines `fromLine`..`toLine` (inclusive) with `text`, keeping the
+ * user's cursor where it was: lines after the region shift by the size
+ * difference, and a cursor inside the region is clamped to its first line.
+ */
+export function replaceLinesPreservingCursor(
+  editor: Editor,
+  fromLine: number,
+  toLine: number,
+  text: string
+): void {
+  const cursor = editor.getCursor();
+  const lastLine = editor.lineCount() - 1;
+  const body = text.endsWith("\n") ? text : `${text}\n`;
+  const insertedLines = body.split("\n").length - 1;
+  const removedLines = toLine - fromLine + 1;
+
+  if (toLine < lastLine) {
+    editor.replaceRange(body, { line: fromLine, ch: 0 }, { line: toLine + 1, ch: 0 });
+  } else {
+    // Region runs to the end of the document: don't add a trailing newline
+    editor.replaceRange(
+      body.slice(0, -1),
+      { line: fromLine, ch: 0 },
+      { line: lastLine, ch: editor.getLine(lastLine).length }
+    );
+  }
+
+  let next: EditorPosition = cursor;
+  if (cursor.line > toLine) {
+    next = { line: cursor.line + insertedLines - removedLines, ch: cursor.ch };
+  } else if (cursor.line >= fromLine) {
+    next = { line: fromLine, ch: 0 };
+  }
+  editor.setCursor(next);
+}
@@ -0,0 +1,148 @@
+import { TaskItem } from "./types";
+import { DependencyGraph, isBlocked } from "./dependencies";
+import { daysBetween, formatIsoDate, globToRegExp, isUnderFolder } from "./utils";
+
+// "leaf" keeps tasks without open subtasks, "top-level" tasks without a parent task
+export type TaskLevel = "all" | "leaf" | "top-level";
+
+export interface TaskFilterRules {
+  excludeFolders: string[];
+  excludeGlobs: string[];
+  includeTags: string[];      // empty = no tag requirement
+  excludeTags: string[];
+  hideFutureStart: boolean;   // start or scheduled date after today
+  hideBlocked: boolean;       // waiting on an open ⛔ dependency; otherwise flagged to the ranker
+  taskLevel: TaskLevel;
+  minAgeDays: number | null;  // by created date
+  maxAgeDays: number | null;
+}
+
+export const DEFAULT_FILTER_RULES: TaskFilterRules = {
+  excludeFolders: [],
+  excludeGlobs: [],
+  includeTags: [],
+  excludeTags: [],
+  hideFutureStart: false,
+  hideBlocked: true,
+  taskLevel: "all",
+  minAgeDays: null,
+  maxAgeDays: null,
+};
+
+export interface FilterStep {
+  rule: string;
+  removed: number;
+  remaining: number;
+}
+
+export interface FilterResult {
+  tasks: TaskItem[];
+  steps: FilterStep[];
+}
+
+interface FilterRule {
+  name: string;
+  active: boolean;
+  keep: (task: TaskItem) => boolean;
+}
+
+export function normalizeTag(tag: string): string {
+  return `#${tag.trim().replace(/^#+/, "")}`.toLowerCase();
+}
+
+// `#someday` also matches nested tags such as `#someday/maybe`
+export function hasTag(task: Pick<TaskItem, "tags">, tags: string[]): boolean {
+  const own = task.tags.map((t) => t.toLowerCase());
+  return tags.some((tag) => own.some((t) => t === tag || t.startsWith(`${tag}/`)));
+}
+
+export function applyTaskFilters(
+  tasks: TaskItem[],
+  rules: TaskFilterRules,
+  now: Date = new Date(),
+  dependencies: DependencyGraph | null = null
+): FilterResult {
+  const today = formatIsoDate(now);
+  const excludeFolders = rules.excludeFolders.filter((f) => f.trim());
+  const globs = rules.excludeGlobs.filter((g) => g.trim()).map(globToRegExp);
+  const includeTags = rules.includeTags.filter((t) => t.trim()).map(normalizeTag);
+  const excludeTags = rules.excludeTags.filter((t) => t.trim()).map(normalizeTag);
+
+  // Tasks without a created date are kept by the age rules
+  const ageOf = (task: TaskItem): number | null =>
+    task.created ? daysBetween(task.created, today) : null;
+
+  const pipeline: FilterRule[] = [
+    {
+      name: "Excluded folders",
+      active: excludeFolders.length > 0,
+      keep: (t) => !excludeFolders.some((f) => isUnderFolder(t.note, f)),
+    },
+    {
+      name: "Excluded globs",
+      active: globs.length > 0,
+      keep: (t) => !globs.some((re) => re.test(t.note)),
+    },
+    {
+      name: "Required tags",
+      active: includeTags.length > 0,
+      keep: (t) => hasTag(t, includeTags),
+    },
+    {
+      name: "Excluded tags",
+      active: excludeTags.length > 0,
+      keep: (t) => !hasTag(t, excludeTags),
+    },
+    {
+      name: "Future start/scheduled",
+      active: rules.hideFutureStart,
+      keep: (t) => !(t.start && t.start > today) && !(t.scheduled && t.scheduled > today),
+    },
+    {
+      name: "Leaf tasks only",
+      active: rules.taskLevel === "leaf",
+      keep: (t) => t.subtasks.open === 0,
+    },
+    {
+      name: "Top-level tasks only",
+      active: rules.taskLevel === "top-level",
+      keep: (t) => t.parents.length === 0,
+    },
+    {
+      name: "Blocked by open tasks",
+      active: rules.hideBlocked && dependencies != null,
+      keep: (t) => !dependencies || !isBlocked(dependencies, t),
+    },
+    {
+      name: "Minimum age",
+      active: rules.minAgeDays != null,
+      keep: (t) => {
+        const age = ageOf(t);
+        return age == null || age >= (rules.minAgeDays ?? 0);
+      },
+    },
+    {
+      name: "Maximum age",
+      active: rules.maxAgeDays != null,
+      keep: (t) => {
+        const age = ageOf(t);
+        return age == null || age <= (rules.maxAgeDays ?? Infinity);
+      },
+    },
+  ];
+
+  let remaining = tasks;
+  const steps: FilterStep[] = [];
+  for (const rule of pipeline) {
+    if (!rule.active) continue;
+    const kept = remaining.filter(rule.keep);
+    steps.push({
+      rule: rule.name,
+      removed: remaining.length - kept.length,
+      remaining: kept.length,
+    });
+    remaining = kept;
+  }
+
+  return { tasks: remaining, steps };
+}
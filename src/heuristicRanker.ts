@@ -0,0 +1,185 @@
+import { RankedTask, TaskItem, TaskPriority } from "./types";
+import { daysBetween, formatIsoDate } from "./utils";
+import { DependencyGraph, isBlocked, unblockedBy } from "./dependencies";
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "into", "onto", "our",
+  "your", "are", "was", "were", "will", "have", "has", "had", "not", "but",
+  "all", "any", "can", "get", "got", "out", "off", "via", "per", "its", "it's",
+  "than", "then", "them", "they", "their", "there", "what", "when", "which",
+  "who", "why", "how", "about", "next", "week", "weeks", "month", "priority",
+  "priorities", "focus", "goal", "goals", "make", "more", "less", "also",
+]);
+
+const WEIGHTS = {
+  overlap: 3,
+  due: 2,
+  priority: 1.5,
+  age: 1,
+  unblocks: 1.5,
+  inProgress: 1, // finishing started work
+  blocked: -3, // only reachable when blocked tasks are flagged rather than hidden
+};
+
+// Tasks without an explicit priority sit between medium and low, as in the Tasks plugin
+const PRIORITY_SCORES: Record<TaskPriority | "none", number> = {
+  highest: 1,
+  high: 0.8,
+  medium: 0.6,
+  none: 0.4,
+  low: 0.2,
+  lowest: 0,
+};
+
+const AGE_HORIZON_DAYS = 30;
+const DUE_HORIZON_DAYS = 14;
+// Unblocking this many tasks earns the full unblocks weight
+const UNBLOCKS_HORIZON = 3;
+
+export function tokenizeTerms(text: string): string[] {
+  return (text ?? "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .map((t) => t.replace(/^'+|'+$/g, ""))
+    .filter((t) => t.length >= 3 && !STOPWORDS.has(t));
+}
+
+// Plural folding only, so "invoices" matches "invoice" and "stories" matches "story"
+function stem(term: string): string {
+  if (term.length <= 4) return term;
+  return term.replace(/ies$/, "y").replace(/(?<!s)s$/, "");
+}
+
+function taskStems(task: TaskItem): Set<string> {
+  return new Set(
+    tokenizeTerms(
+      [
+        task.description,
+        ...task.headingPath,
+        ...task.parents,
+        task.noteTitle,
+        ...task.noteAliases,
+        task.tags.join(" "),
+      ].join(" ")
+    ).map(stem)
+  );
+}
+
+function matchedTerms(priorityStems: Set<string>, terms: Set<string>): string[] {
+  return [...terms].filter((term) => priorityStems.has(term));
+}
+
+function overlapScore(priorityStems: Set<string>, terms: Set<string>): number {
+  if (!terms.size || !priorityStems.size) return 0;
+  return Math.min(1, matchedTerms(priorityStems, terms).length / Math.sqrt(terms.size));
+}
+
+// The priorities line (usually a bullet) sharing the most terms with the task
+function bestPriorityLine(prioritiesText: string, terms: Set<string>): string | null {
+  let best: string | null = null;
+  let bestHits = 0;
+  for (const line of (prioritiesText ?? "").split(/\r?\n/)) {
+    const lineStems = new Set(tokenizeTerms(line).map(stem));
+    const hits = matchedTerms(lineStems, terms).length;
+    if (hits > bestHits) {
+      bestHits = hits;
+      best = line.replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, "").trim();
+    }
+  }
+  return best || null;
+}
+
+function dueScore(task: TaskItem, today: string): number {
+  if (!task.due) return 0;
+  const days = daysBetween(today, task.due);
+  if (days <= 0) return 1;
+  return Math.max(0, 1 - days / DUE_HORIZON_DAYS);
+}
+
+function ageScore(task: TaskItem, today: string): number {
+  if (!task.created) return 0;
+  const age = daysBetween(task.created, today);
+  return Math.max(0, Math.min(1, age / AGE_HORIZON_DAYS));
+}
+
+function unblocksScore(task: TaskItem, dependencies: DependencyGraph | null): number {
+  if (!dependencies) return 0;
+  return Math.min(1, unblockedBy(dependencies, task).length / UNBLOCKS_HORIZON);
+}
+
+function explainTask(
+  task: TaskItem,
+  priorityStems: Set<string>,
+  today: string,
+  dependencies: DependencyGraph | null
+): string | null {
+  const reasons: string[] = [];
+  const terms = matchedTerms(priorityStems, taskStems(task));
+  if (terms.length) reasons.push(`matches ${terms.slice(0, 3).join(", ")}`);
+  if (task.due) {
+    const days = daysBetween(today, task.due);
+    if (days < 0) reasons.push(`overdue by ${-days}d`);
+    else if (days === 0) reasons.push("due today");
+    else if (days <= DUE_HORIZON_DAYS) reasons.push(`due in ${days}d`);
+  }
+  if (task.status === "in-progress") reasons.push("in progress");
+  if (task.priority === "highest" || task.priority === "high") {
+    reasons.push(`${task.priority} priority`);
+  }
+  if (task.created) {
+    const age = daysBetween(task.created, today);
+    if (age >= AGE_HORIZON_DAYS) reasons.push(`open ${age}d`);
+  }
+  if (dependencies) {
+    const unblocks = unblockedBy(dependencies, task).length;
+    if (unblocks) reasons.push(`unblocks ${unblocks} task${unblocks === 1 ? "" : "s"}`);
+    if (isBlocked(dependencies, task)) reasons.push("blocked");
+  }
+  if (!reasons.length) return null;
+  const text = reasons.join("; ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function scoreTask(
+  task: TaskItem,
+  priorityStems: Set<string>,
+  today: string,
+  dependencies: DependencyGraph | null = null
+): number {
+  return (
+    WEIGHTS.overlap * overlapScore(priorityStems, taskStems(task)) +
+    WEIGHTS.due * dueScore(task, today) +
+    WEIGHTS.priority * PRIORITY_SCORES[task.priority ?? "none"] +
+    WEIGHTS.age * ageScore(task, today) +
+    WEIGHTS.unblocks * unblocksScore(task, dependencies) +
+    (task.status === "in-progress" ? WEIGHTS.inProgress : 0) +
+    (dependencies && isBlocked(dependencies, task) ? WEIGHTS.blocked : 0)
+  );
+}
+
+/**
+ * Deterministic, offline ranking used when no LLM is configured or the
+ * remote call fails. Scores term overlap with the priorities text, due-date
+ * proximity, explicit priority, task age and how many tasks it unblocks.
+ */
+export function rankTasksHeuristically(
+  prioritiesText: string,
+  tasks: TaskItem[],
+  maxTasks: number,
+  dependencies: DependencyGraph | null = null,
+  now: Date = new Date()
+): RankedTask[] {
+  const today = formatIsoDate(now);
+  const priorityStems = new Set(tokenizeTerms(prioritiesText).map(stem));
+
+  return tasks
+    .map((task, index) => ({ task, index, score: scoreTask(task, priorityStems, today, dependencies) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, maxTasks)
+    .map(({ task }) => ({
+      id: task.id,
+      reason: explainTask(task, priorityStems, today, dependencies),
+      advances: bestPriorityLine(prioritiesText, taskStems(task)),
+      estimateMinutes: null,
+    }));
+}
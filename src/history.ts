@@ -0,0 +1,80 @@
+export type CorrectionKind = "completed" | "removed" | "promoted" | "demoted";
+
+export interface RankingCorrection {
+  taskId: string;
+  kind: CorrectionKind;
+  from: number | null; // 0-based position in the ranking before the correction
+  to: number | null;   // 0-based position after (promoted/demoted only)
+  at: string;
+}
+
+export interface RankingHistoryEntry {
+  runId: string; // the run's ISO timestamp, also stored in the managed block marker
+  prioritiesHash: string;
+  candidateIds: string[];
+  rankedIds: string[];
+  descriptions: Record<string, string>; // ranked task id -> description
+  tags?: Record<string, string[]>;      // ranked task id -> its own and its parents' tags; missing in older runs
+  corrections: RankingCorrection[];
+}
+
+export function recordRun(
+  history: RankingHistoryEntry[],
+  entry: RankingHistoryEntry,
+  limit: number
+): RankingHistoryEntry[] {
+  const next = [...history.filter((h) => h.runId !== entry.runId), entry];
+  return next.slice(Math.max(0, next.length - Math.max(1, limit)));
+}
+
+/**
+ * Adds a correction to the run it belongs to. A task only keeps its latest
+ * correction per run, so dragging a task around several times counts once.
+ */
+export function recordCorrection(
+  history: RankingHistoryEntry[],
+  runId: string,
+  correction: Omit<RankingCorrection, "at">,
+  now: Date = new Date()
+): boolean {
+  const run = history.find((h) => h.runId === runId);
+  if (!run) return false;
+  run.corrections = run.corrections.filter((c) => c.taskId !== correction.taskId);
+  run.corrections.push({ ...correction, at: now.toISOString() });
+  return true;
+}
+
+function describeCorrection(run: RankingHistoryEntry, c: RankingCorrection): string {
+  const task = `"${run.descriptions[c.taskId] ?? c.taskId}"`;
+  const rank = (pos: number | null) => (pos == null ? "?" : `#${pos + 1}`);
+  switch (c.kind) {
+    case "completed":
+      return `Completed ${task} after it was ranked ${rank(c.from)}.`;
+    case "removed":
+      return `Removed ${task} (ranked ${rank(c.from)}) from the list; it was not a good pick.`;
+    case "promoted":
+      return `Moved ${task} up from ${rank(c.from)} to ${rank(c.to)}.`;
+    case "demoted":
+      return `Moved ${task} down from ${rank(c.from)} to ${rank(c.to)}.`;
+  }
+}
+
+/**
+ * Most recent corrections first, rendered as one-line prompt examples.
+ * Corrections to tasks whose tags `isPrivate` matches are left out, since
+ * the examples go to the model and would carry the task's text.
+ */
+export function recentCorrectionExamples(
+  history: RankingHistoryEntry[],
+  count: number,
+  isPrivate: (tags: string[]) => boolean = () => false
+): string[] {
+  if (count <= 0) return [];
+  const all = history.flatMap((run) =>
+    run.corrections
+      .filter((c) => !isPrivate(run.tags?.[c.taskId] ?? []))
+      .map((c) => ({ run, c }))
+  );
+  all.sort((a, b) => b.c.at.localeCompare(a.c.at));
+  return all.slice(0, count).map(({ run, c }) => describeCorrection(run, c));
+}
@@ -0,0 +1,89 @@
+import { App, TFile } from "obsidian";
+
+export interface LineChange {
+  path: string;
+  line: number;   // 0-based line the change was planned for
+  before: string;
+  after: string;
+}
+
+export interface JournalEntry {
+  id: string; // ISO timestamp of the write
+  label: string;
+  changes: LineChange[];
+}
+
+/**
+ * Applies line edits atomically per file with `vault.process`. Each edit
+ * only lands if its line still reads `before` (at the planned line number,
+ * or anywhere in the file if lines shifted). Returns the edits that landed,
+ * with their actual line numbers.
+ */
+export async function applyLineChanges<T extends LineChange>(app: App, changes: T[]): Promise<T[]> {
+  const applied: T[] = [];
+  const byPath = new Map<string, T[]>();
+  for (const change of changes) {
+    byPath.set(change.path, [...(byPath.get(change.path) ?? []), change]);
+  }
+
+  for (const [path, fileChanges] of byPath) {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) continue;
+
+    await app.vault.process(file, (data) => {
+      const lines = data.split("\n");
+      let mutated = false;
+      for (const change of fileChanges) {
+        const index =
+          lines[change.line] === change.before ? change.line : lines.indexOf(change.before);
+        if (index === -1) continue;
+        lines[index] = change.after;
+        applied.push({ ...change, line: index });
+        mutated = true;
+      }
+      return mutated ? lines.join("\n") : data;
+    });
+  }
+
+  return applied;
+}
+
+export function invertChanges(changes: LineChange[]): LineChange[] {
+  return changes.map((c) => ({ path: c.path, line: c.line, before: c.after, after: c.before }));
+}
+
+// Strips whatever else callers hang off a change before it is persisted
+export function toLineChange(change: LineChange): LineChange {
+  return { path: change.path, line: change.line, before: change.before, after: change.after };
+}
+
+export function recordJournalEntry(
+  journal: JournalEntry[],
+  entry: JournalEntry,
+  limit: number
+): JournalEntry[] {
+  const next = [...journal, entry];
+  return next.slice(Math.max(0, next.length - limit));
+}
+
+/**
+ * Resolves once the metadata cache has re-parsed every path in `paths`, or
+ * after `timeoutMs`, so freshly written block IDs resolve in embeds.
+ */
+export function waitForIndexing(app: App, paths: string[], timeoutMs = 2000): Promise<void> {
+  const pending = new Set(paths);
+  if (!pending.size) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const ref = app.metadataCache.on("changed", (file) => {
+      pending.delete(file.path);
+      if (!pending.size) finish();
+    });
+    const timer = window.setTimeout(finish, timeoutMs);
+    function finish(): void {
+      window.clearTimeout(timer);
+      app.metadataCache.offref(ref);
+      resolve();
+    }
+  });
+}
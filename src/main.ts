@@ -1,87 +1,310 @@
-import { Editor, MarkdownView, Notice, Plugin, TFile } from "obsidian";
+import { Editor, MarkdownView, Notice, Plugin, TAbstractFile, TFile, WorkspaceLeaf } from "obsidian";
 import type { MarkdownFileInfo } from "obsidian";
+import { AiTaskPickerSettings, DEFAULT_SETTINGS, resolveSettings } from "./settings";
+import { AiTaskPickerSettingTab } from "./settingsTab";
+import { PickTarget, RankedTask, TaskItem } from "./types";
+import { formatIsoDate, hashText, normalizeBlockId, normalizeFolderPath } from "./utils";
+import { error, warn } from "./logger";
+import { insertTextAtCursor, replaceLinesPreservingCursor } from "./editor";
+import { confirmChanges, pickProfile, promptForTarget, refineRankingInModal, showPayload, showPriorities } from "./modal";
+import { DEFAULT_PROFILE, RankingProfile, findProfile } from "./profiles";
+import { resolvePriorities } from "./priorities";
+import { TaskIndex } from "./taskIndex";
+import { VaultAdapter } from "./vault";
+import { createObsidianVault } from "./obsidianVault";
+import { ProgressNotice } from "./progress";
+import { insertUnderHeading, isDailyPlanTarget } from "./dailyPlan";
+import { parsePickTarget } from "./timeBudget";
+import { planBlockIds } from "./blockIds";
 import {
-  AiTaskPickerSettings,
-  DEFAULT_SETTINGS,
-  AiTaskPickerSettingTab,
-} from "./settings";
-import { TaskItem } from "./types";
-import { normalizeBlockId, ensureMd } from "./utils";
-import { error } from "./logger";
-import { insertTextAtCursor } from "./editor";
-import { promptForCount } from "./modal";
-import { extractPrioritiesFromFile } from "./priorities";
-import { collectAllOpenTasksDirect } from "./directTaskCollection";
-import { callOpenAIRank } from "./openai";
+  JournalEntry,
+  LineChange,
+  applyLineChanges,
+  invertChanges,
+  recordJournalEntry,
+  toLineChange,
+  waitForIndexing,
+} from "./journal";
+import { applyTaskFilters } from "./filters";
+import { DependencyGraph, buildDependencyGraph } from "./dependencies";
+import { RankingConversation, previewRankingPayload, rankTasksForReview, refineRanking } from "./ranker";
+import { resolveModel, resolveProvider } from "./providers";
+import { RankedEntry, RenderOptions, needsBlockIds, renderRankedTasks, taskEmbed } from "./output";
+import {
+  ManagedBlockParams,
+  findManagedBlock,
+  findManagedBlocks,
+  parseEmbeddedTaskRefs,
+  pickTargetOf,
+  wrapManagedBlock,
+} from "./managedBlock";
+import { hasPrivateTag } from "./privacy";
+import { buildReview, renderReview, reviewedTasks, suggestCleanup, suggestionCandidates } from "./review";
+import { UsageMeter, UsageRecord, budgetStatus, createUsageMeter, formatCost, recordUsage } from "./usage";
+import { LatestRanking, RANKED_TASKS_VIEW_TYPE, RankedTasksView } from "./view";
+import {
+  RankingCorrection,
+  RankingHistoryEntry,
+  recentCorrectionExamples,
+  recordCorrection,
+  recordRun,
+} from "./history";
+
+const JOURNAL_LIMIT = 20;
+
+interface RankingRun {
+  entries: RankedEntry[];
+  collected: TaskItem[];
+  params: ManagedBlockParams;
+}
+
+// Lets the user look at a ranking before it is committed; null cancels the run
+type ReviewRanking = (
+  entries: RankedEntry[],
+  tasks: TaskItem[],
+  conversation: RankingConversation | null
+) => Promise<RankedEntry[] | null>;
+
+// Pairs ranked ids with the collected tasks, dropping any that are gone
+function toEntries(ranked: RankedTask[], tasks: TaskItem[]): RankedEntry[] {
+  const tasksById = new Map<string, TaskItem>(tasks.map((task) => [normalizeBlockId(task.id), task]));
+  const entries: RankedEntry[] = [];
+  for (const ranking of ranked) {
+    const task = tasksById.get(normalizeBlockId(ranking.id));
+    if (task) entries.push({ task, ranking });
+  }
+  return entries;
+}
+
+// How long to wait after a daily note is created before reading it
+const DAILY_PLAN_DELAY_MS = 2000;
+
+const DEPENDENCY_NOTICE_MS = 10000;
+const BUDGET_NOTICE_MS = 10000;
+
+// The first review covers completions from the past week
+const FIRST_REVIEW_LOOKBACK_DAYS = 7;
+
+// A few problems in the notice, all of them in the console
+function dependencyProblemsMessage(problems: string[]): string {
+  const shown = problems.slice(0, 3);
+  const more = problems.length - shown.length;
+  return [
+    "Some task dependencies could not be resolved. Ranking continues without them:",
+    ...shown,
+    ...(more ? [`…and ${more} more (see the console).`] : []),
+  ].join("\n");
+}
 
 export default class AiTaskPickerPlugin extends Plugin {
   settings: AiTaskPickerSettings = DEFAULT_SETTINGS;
+  latestRanking: LatestRanking | null = null;
+  history: RankingHistoryEntry[] = [];
+  journal: JournalEntry[] = [];
+  usage: UsageRecord[] = [];
+  lastReviewAt: string | null = null;
+  taskIndex!: TaskIndex;
+  private vault!: VaultAdapter;
+  private profileCommandIds: string[] = [];
+  private dailyPlansInFlight = new Set<string>();
 
   async onload(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const data = await this.loadData();
+    this.settings = resolveSettings(data);
+    this.history = Array.isArray(data?.history) ? data.history : [];
+    this.journal = Array.isArray(data?.journal) ? data.journal : [];
+    this.usage = Array.isArray(data?.usage) ? data.usage : [];
+    this.lastReviewAt = typeof data?.lastReviewAt === "string" ? data.lastReviewAt : null;
     this.addSettingTab(new AiTaskPickerSettingTab(this.app, this));
 
+    this.vault = createObsidianVault(this.app);
+    this.taskIndex = new TaskIndex(this.app, () => this.settings.taskStatuses);
+    this.taskIndex.register(this);
+    this.app.workspace.onLayoutReady(() => {
+      this.taskIndex.ready().catch((e) => error("Failed to build task index:", e));
+      // Registered after layout-ready: the vault fires `create` for every file while loading
+      this.registerEvent(this.app.vault.on("create", (file) => this.onFileCreated(file)));
+    });
+
+    this.registerView(
+      RANKED_TASKS_VIEW_TYPE,
+      (leaf: WorkspaceLeaf) => new RankedTasksView(leaf, this)
+    );
+    this.addRibbonIcon("list-checks", "Open ranked tasks", () => this.activateView());
+
+    this.addCommand({
+      id: "undo-last-changes",
+      name: "Undo last AI Task Picker changes",
+      callback: () => {
+        this.undoLastChanges().catch((e: unknown) => {
+          const msg = e instanceof Error ? e.message : String(e);
+          error("Undo failed:", e);
+          new Notice(`AI Task Picker error: ${msg}`);
+        });
+      },
+    });
+
+    this.addCommand({
+      id: "open-ranked-tasks-view",
+      name: "AI: Open ranked tasks view",
+      callback: () => this.activateView(),
+    });
+
     this.addCommand({
       id: "insert-ranked-tasks-at-cursor",
       name: "AI: Insert ranked tasks at cursor",
+      editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) =>
+        this.insertRankedTasks(editor, ctx, this.profileFor(null)),
+    });
+
+    this.addCommand({
+      id: "insert-ranked-tasks-and-refine",
+      name: "AI: Insert ranked tasks at cursor and refine…",
+      editorCallback: (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) =>
+        this.insertRankedTasks(editor, ctx, this.profileFor(null), true),
+    });
+
+    this.addCommand({
+      id: "insert-ranked-tasks-with-profile",
+      name: "AI: Insert ranked tasks using profile…",
       editorCallback: async (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => {
+        const profile = await pickProfile(this.app, this.settings.profiles);
+        if (profile) await this.insertRankedTasks(editor, ctx, profile);
+      },
+    });
+
+    this.addCommand({
+      id: "show-resolved-priorities",
+      name: "AI: Show resolved priorities",
+      callback: async () => {
         try {
-          const targetFile: TFile | null =
-            (ctx as MarkdownFileInfo)?.file ??
-            (ctx as MarkdownView)?.file ??
-            this.app.workspace.getActiveFile();
-          if (!targetFile) { new Notice("Open a note first."); return; }
+          const profile =
+            this.settings.profiles.length > 1
+              ? await pickProfile(this.app, this.settings.profiles)
+              : this.profileFor(null);
+          if (!profile) return;
+          const resolved = await resolvePriorities(
+            this.vault,
+            profile.priorities,
+            this.app.workspace.getActiveFile()?.path ?? null
+          );
+          showPriorities(this.app, profile, resolved);
+        } catch (e: unknown) {
+          const msg = e instanceof Error ? e.message : String(e);
+          error("Command failure:", e);
+          new Notice(`AI Task Picker error: ${msg}`);
+        }
+      },
+    });
 
-          // Save cursor position and document state IMMEDIATELY before showing modal
-          const savedCursor = editor.getCursor();
-          const initialContent = editor.getValue();
+    this.addCommand({
+      id: "preview-llm-payload",
+      name: "AI: Preview LLM payload",
+      callback: async () => {
+        try {
+          const profile =
+            this.settings.profiles.length > 1
+              ? await pickProfile(this.app, this.settings.profiles)
+              : this.profileFor(null);
+          if (profile) await this.previewPayload(profile);
+        } catch (e: unknown) {
+          const msg = e instanceof Error ? e.message : String(e);
+          error("Command failure:", e);
+          new Notice(`AI Task Picker error: ${msg}`);
+        }
+      },
+    });
 
-          const taskCount = await promptForCount(this.app, 5);
-          if (taskCount == null) return;
+    this.addCommand({
+      id: "generate-task-review",
+      name: "AI: Generate task review",
+      callback: async () => {
+        try {
+          const profile =
+            this.settings.profiles.length > 1
+              ? await pickProfile(this.app, this.settings.profiles)
+              : this.profileFor(null);
+          if (profile) await this.generateReview(profile);
+        } catch (e: unknown) {
+          const msg = e instanceof Error ? e.message : String(e);
+          error("Command failure:", e);
+          new Notice(`AI Task Picker error: ${msg}`);
+        }
+      },
+    });
 
-          new Notice("Collecting open tasks…");
-          const tasks = await collectAllOpenTasksDirect(this.app, this.settings, targetFile);
-          
-          if (!tasks.length) {
-            new Notice("No open tasks found.");
-            return;
-          }
-          
-          // Restore content if unexpectedly modified
-          if (editor.getValue() !== initialContent) {
-            editor.setValue(initialContent);
-          }
+    this.registerProfileCommands();
 
-          new Notice("Reading priorities…");
-          const priorities = await extractPrioritiesFromFile(this.app, targetFile, this.settings.prioritiesHeading);
-          if (!priorities.trim()) {
-            new Notice("No priorities found.");
+    this.addCommand({
+      id: "refresh-ranked-tasks",
+      name: "AI: Refresh ranked tasks",
+      editorCallback: async (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => {
+        try {
+          const targetFile = this.resolveTargetFile(ctx);
+          if (!targetFile) { new Notice("Open a note first."); return; }
+
+          const block = findManagedBlock(editor.getValue(), editor.getCursor().line);
+          if (!block) {
+            new Notice("No ranked task block found in this note.");
             return;
           }
 
-          new Notice("Ranking with OpenAI…");
-          const rankedIds = await callOpenAIRank(this.settings, priorities, tasks, taskCount);
+          // Embeds the user deleted from the block since the last run. Copied
+          // lines and queries carry no block refs, so nothing can be told apart.
+          const profile = this.profileFor(block.params.profile);
+          const tracked = needsBlockIds(block.params.output ?? profile.outputFormat);
+          const refs = tracked ? parseEmbeddedTaskRefs(block.body) : [];
+          const previous = tracked ? this.history.find((h) => h.runId === block.params.ranAt) : undefined;
+          const keptIds = new Set(refs.map((r) => r.id));
+          previous?.rankedIds.forEach((id, index) => {
+            if (!keptIds.has(id)) {
+              this.addCorrection(previous.runId, { taskId: id, kind: "removed", from: index, to: null });
+            }
+          });
 
-          const tasksById = new Map<string, TaskItem>(
-            tasks.map((task) => [normalizeBlockId(task.id), task])
-          );
-          
-          const taskEmbeds: string[] = [];
-          for (const rawId of rankedIds) {
-            const blockId = normalizeBlockId(rawId);
-            const task = tasksById.get(blockId);
-            if (!task) continue;
-
-            taskEmbeds.push(`![[${ensureMd(task.note)}#^${blockId}]]`);
-          }
+          let doneIds = new Set<string>();
+          const run = await this.runRanking(targetFile, profile, pickTargetOf(block.params), () => {
+            // Record completions before ranking so this refresh already learns from them.
+            // A task missing from the collection may just have moved or been
+            // filtered out, so only tasks checked off in the index count.
+            doneIds = this.taskIndex.doneIds(keptIds);
+            previous?.rankedIds.forEach((id, index) => {
+              if (doneIds.has(id)) {
+                this.addCorrection(previous.runId, { taskId: id, kind: "completed", from: index, to: null });
+              }
+            });
+          });
+          if (!run) return;
+
+          const completed = refs.filter((ref) => doneIds.has(ref.id)).length;
 
-          if (taskEmbeds.length === 0) {
-            new Notice("No tasks could be embedded. Try again.");
+          // The note may have been edited while ranking; locate the same block
+          // again, and never fall back to a different one
+          const current = findManagedBlocks(editor.getValue()).find(
+            (b) => b.startLine <= block.startLine && block.startLine <= b.endLine && b.params.ranAt === block.params.ranAt
+          );
+          if (!current) {
+            new Notice("The ranked task block moved or was removed while refreshing. Nothing was changed.");
             return;
           }
 
-          insertTextAtCursor(editor, savedCursor, taskEmbeds.join("\n") + "\n");
-          new Notice("Inserted ranked task embeds ✅");
+          const params: ManagedBlockParams = {
+            ...current.params,
+            profile: profile.id,
+            ranAt: run.params.ranAt,
+            output: profile.outputFormat,
+          };
+          replaceLinesPreservingCursor(
+            editor,
+            current.startLine,
+            current.endLine,
+            wrapManagedBlock(renderRankedTasks(run.entries, this.renderOptions(profile, params)), params)
+          );
+          new Notice(
+            completed
+              ? `Refreshed ranked tasks ✅ (${completed} completed task${completed === 1 ? "" : "s"} dropped)`
+              : "Refreshed ranked tasks ✅"
+          );
         } catch (e: unknown) {
           const msg = e instanceof Error ? e.message : String(e);
           error("Command failure:", e);
@@ -91,7 +314,669 @@ export default class AiTaskPickerPlugin extends Plugin {
     });
   }
 
+  // Recent corrections for the prompt, leaving out private tasks ranked offline
+  private correctionExamples(): string[] {
+    return recentCorrectionExamples(this.history, this.settings.feedbackExamples, (tags) =>
+      hasPrivateTag(this.settings.privacy, tags)
+    );
+  }
+
+  /** Looks up a profile by ID or name, falling back to the first profile. */
+  profileFor(idOrName: string | null): RankingProfile {
+    return findProfile(this.settings.profiles, idOrName) ?? this.settings.profiles[0] ?? DEFAULT_PROFILE;
+  }
+
+  // One command per profile so each can be bound to its own hotkey
+  private registerProfileCommands(): void {
+    // removeCommand only exists since Obsidian 1.7.2; older versions keep
+    // stale entries until the plugin reloads, and running one is a no-op
+    if (typeof this.removeCommand === "function") {
+      for (const id of this.profileCommandIds) this.removeCommand(id);
+    }
+    this.profileCommandIds = [];
+
+    for (const profile of this.settings.profiles) {
+      const id = `rank-profile-${profile.id}`;
+      this.addCommand({
+        id,
+        name: `AI: Rank tasks: ${profile.name}`,
+        editorCallback: async (editor: Editor, ctx: MarkdownView | MarkdownFileInfo) => {
+          const current = findProfile(this.settings.profiles, profile.id);
+          if (!current) {
+            new Notice(`The profile “${profile.name}” no longer exists.`);
+            return;
+          }
+          await this.insertRankedTasks(editor, ctx, current);
+        },
+      });
+      this.profileCommandIds.push(id);
+    }
+  }
+
+  onProfilesChanged(): void {
+    this.registerProfileCommands();
+  }
+
+  onTaskStatusesChanged(): void {
+    this.taskIndex.rebuild().catch((e) => error("Failed to rebuild task index:", e));
+  }
+
+  private async insertRankedTasks(
+    editor: Editor,
+    ctx: MarkdownView | MarkdownFileInfo,
+    profile: RankingProfile,
+    refine = false
+  ): Promise<void> {
+    try {
+      const targetFile = this.resolveTargetFile(ctx);
+      if (!targetFile) { new Notice("Open a note first."); return; }
+
+      // Save cursor position and document state IMMEDIATELY before showing modal
+      const savedCursor = editor.getCursor();
+      const initialContent = editor.getValue();
+
+      const target = await promptForTarget(this.app, profile.defaultCount);
+      if (target == null) return;
+
+      const run = await this.runRanking(
+        targetFile,
+        profile,
+        target,
+        () => {
+          // Restore content if unexpectedly modified
+          if (editor.getValue() !== initialContent) {
+            editor.setValue(initialContent);
+          }
+        },
+        refine ? (entries, tasks, conversation) => this.reviewRanking(profile, entries, tasks, conversation) : undefined
+      );
+      if (!run) return;
+
+      insertTextAtCursor(
+        editor,
+        savedCursor,
+        wrapManagedBlock(renderRankedTasks(run.entries, this.renderOptions(profile, run.params)), run.params)
+      );
+      new Notice("Inserted ranked task embeds ✅");
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      error("Command failure:", e);
+      new Notice(`AI Task Picker error: ${msg}`);
+    }
+  }
+
+  private onFileCreated(file: TAbstractFile): void {
+    const plan = this.settings.dailyPlan;
+    if (!plan.enabled || !(file instanceof TFile) || file.extension !== "md") return;
+    if (!isDailyPlanTarget(this.app, plan, file.path)) return;
+    if (this.dailyPlansInFlight.has(file.path)) return;
+
+    this.dailyPlansInFlight.add(file.path);
+    this.insertDailyPlan(file)
+      .catch((e: unknown) => {
+        const msg = e instanceof Error ? e.message : String(e);
+        error("Daily plan failed:", e);
+        new Notice(`AI Task Picker error: ${msg}`);
+      })
+      .finally(() => this.dailyPlansInFlight.delete(file.path));
+  }
+
+  /**
+   * Ranks tasks into a newly created daily note, under the configured
+   * heading. Skipped for notes that aren't open in the workspace (files
+   * arriving through sync are created without being opened), for notes that
+   * already contain a ranked block, and when the profile finds no priorities.
+   */
+  private async insertDailyPlan(file: TFile): Promise<void> {
+    const plan = this.settings.dailyPlan;
+    // Give Templater or the daily note template time to fill the note
+    await sleep(DAILY_PLAN_DELAY_MS);
+    if (this.app.vault.getAbstractFileByPath(file.path) !== file) return;
+
+    const opened = this.app.workspace
+      .getLeavesOfType("markdown")
+      .some((leaf) => (leaf.view as MarkdownView).file?.path === file.path);
+    if (!opened) return;
+
+    if (findManagedBlocks(await this.app.vault.read(file)).length) return;
+
+    const profile = this.profileFor(plan.profileId || null);
+    const { text: priorities } = await resolvePriorities(this.vault, profile.priorities, file.path);
+    if (!priorities.trim()) {
+      new Notice("Daily plan skipped: no priorities found. Run “Show resolved priorities” to check the sources.");
+      return;
+    }
+
+    const target = parsePickTarget(plan.target) ?? { kind: "count", count: profile.defaultCount };
+    const run = await this.runRanking(file, profile, target);
+    if (!run) return;
+
+    const block = wrapManagedBlock(
+      renderRankedTasks(run.entries, this.renderOptions(profile, run.params)),
+      run.params
+    );
+    let inserted = false;
+    await this.app.vault.process(file, (content) => {
+      // Another run (or the user) may have added a block while ranking
+      if (findManagedBlocks(content).length) return content;
+      inserted = true;
+      return insertUnderHeading(content, plan.heading, block);
+    });
+    if (inserted) new Notice(`Added today's plan to ${file.basename} ✅`);
+  }
+
+  private resolveTargetFile(ctx: MarkdownView | MarkdownFileInfo): TFile | null {
+    return (
+      (ctx as MarkdownFileInfo)?.file ??
+      (ctx as MarkdownView)?.file ??
+      this.app.workspace.getActiveFile()
+    );
+  }
+
+  /**
+   * Collects, filters and ranks tasks for `targetFile`. Returns null after
+   * telling the user why when there is nothing to insert. Progress is shown
+   * in one notice whose Cancel button stops the run before any file changes.
+   */
+  private async runRanking(
+    targetFile: TFile,
+    profile: RankingProfile,
+    target: PickTarget,
+    afterCollect?: (collected: TaskItem[]) => void,
+    review?: ReviewRanking
+  ): Promise<RankingRun | null> {
+    const progress = new ProgressNotice("Collecting open tasks…");
+    try {
+      return await this.rankAndRecord(targetFile, profile, target, progress, afterCollect, review);
+    } catch (e: unknown) {
+      if (progress.cancelled) {
+        progress.finish("Cancelled. No files were changed.");
+        return null;
+      }
+      throw e;
+    } finally {
+      progress.finish();
+    }
+  }
+
+  private async rankAndRecord(
+    targetFile: TFile,
+    profile: RankingProfile,
+    target: PickTarget,
+    progress: ProgressNotice,
+    afterCollect?: (collected: TaskItem[]) => void,
+    review?: ReviewRanking
+  ): Promise<RankingRun | null> {
+    const collected = await this.collectTasks(profile, targetFile);
+    afterCollect?.(collected);
+
+    if (!collected.length) {
+      progress.finish("No open tasks found.");
+      return null;
+    }
+
+    const dependencies = this.dependencyGraph();
+    if (dependencies.problems.length) {
+      warn("Task dependency problems:", dependencies.problems);
+      new Notice(dependencyProblemsMessage(dependencies.problems), DEPENDENCY_NOTICE_MS);
+    }
+
+    const { tasks } = applyTaskFilters(collected, this.settings.filters, new Date(), dependencies);
+    if (!tasks.length) {
+      progress.finish("No open tasks match the filter rules.");
+      return null;
+    }
+
+    progress.update("Reading priorities…");
+    const { text: priorities } = await resolvePriorities(this.vault, profile.priorities, targetFile.path);
+    if (!priorities.trim()) {
+      progress.finish("No priorities found. Run “Show resolved priorities” to check the sources.");
+      return null;
+    }
+
+    const settings = this.settingsWithinBudget();
+    progress.update(
+      settings.rankingMode === "heuristic"
+        ? "Ranking offline…"
+        : `Ranking with ${resolveProvider(settings).label}…`
+    );
+    const meter = createUsageMeter();
+    const { ranked, conversation } = await rankTasksForReview(
+      settings,
+      {
+        prioritiesText: priorities,
+        tasks,
+        maxTasks: target.kind === "count" ? target.count : tasks.length,
+        budgetMinutes: target.kind === "budget" ? target.minutes : null,
+        rankingPrompt: profile.rankingPrompt,
+        model: profile.model,
+        feedback: this.correctionExamples(),
+        dependencies,
+        signal: progress.signal,
+        onUsage: (usage) => meter.add(usage),
+      },
+      (message) => progress.update(message)
+    ).finally(() => this.recordUsage(meter, profile, tasks.length));
+    // The offline ranker doesn't watch the signal, so check once it returns
+    if (progress.cancelled) {
+      progress.finish("Cancelled. No files were changed.");
+      return null;
+    }
+
+    let picked = toEntries(ranked, tasks);
+
+    // Past this point files may change, so the run can no longer be cancelled
+    progress.finish();
+    if (review) {
+      const reviewed = await review(picked, tasks, conversation);
+      if (!reviewed) {
+        new Notice("Cancelled. No files were changed.");
+        return null;
+      }
+      picked = reviewed;
+    }
+    const entries = await this.stampBlockIds(picked, profile);
+    if (!entries) {
+      new Notice("Cancelled. No files were changed.");
+      return null;
+    }
+
+    if (entries.length === 0) {
+      new Notice("The model picked no tasks that could be inserted. Try again.");
+      return null;
+    }
+
+    const params: ManagedBlockParams = {
+      count: target.kind === "count" ? target.count : entries.length,
+      ...(target.kind === "budget" ? { budget: target.minutes } : {}),
+      profile: profile.id,
+      ranAt: new Date().toISOString(),
+      output: profile.outputFormat,
+    };
+    this.latestRanking = { sourcePath: targetFile.path, params, entries: [...entries] };
+    this.refreshViews();
+
+    this.history = recordRun(
+      this.history,
+      {
+        runId: params.ranAt,
+        prioritiesHash: hashText(priorities),
+        candidateIds: tasks.map((t) => t.id),
+        rankedIds: entries.map((e) => e.task.id),
+        descriptions: Object.fromEntries(
+          entries.map((e) => [e.task.id, e.task.description || e.task.text])
+        ),
+        tags: Object.fromEntries(
+          entries.map((e) => [e.task.id, [...e.task.tags, ...e.task.parentTags.flat()]])
+        ),
+        corrections: [],
+      },
+      this.settings.historyLimit
+    );
+    await this.savePluginData();
+
+    return { entries, collected, params };
+  }
+
+  /**
+   * Opens the refinement modal on a fresh ranking. Each instruction continues
+   * the model conversation and replaces the picks; nothing is written until
+   * the user inserts.
+   */
+  private reviewRanking(
+    profile: RankingProfile,
+    entries: RankedEntry[],
+    tasks: TaskItem[],
+    conversation: RankingConversation | null
+  ): Promise<RankedEntry[] | null> {
+    let current = conversation;
+    const refine = async (instruction: string): Promise<RankedEntry[]> => {
+      if (!current) throw new Error("This ranking can't be refined.");
+      const status = budgetStatus(this.usage, this.settings.modelPrices, this.settings.budget);
+      if (status?.exceeded && this.settings.budget.action === "block") {
+        throw new Error(`This month's LLM budget of ${formatCost(status.limit)} is used up. Insert the ranking as is or raise the budget.`);
+      }
+      const meter = createUsageMeter();
+      const result = await refineRanking(this.settings, current, instruction, {
+        onUsage: (usage) => meter.add(usage),
+      }).finally(() => this.recordUsage(meter, profile, tasks.length));
+      current = result.conversation;
+      return toEntries(result.ranked, tasks);
+    };
+    return refineRankingInModal(this.app, entries, conversation ? refine : null);
+  }
+
+  /**
+   * The settings to rank with. Once this month's estimated spend reaches the
+   * budget, a "warn" budget only says so; a "block" budget ranks offline if
+   * fallback is on and otherwise refuses to run.
+   */
+  private settingsWithinBudget(): AiTaskPickerSettings {
+    const { settings } = this;
+    if (settings.rankingMode !== "ai") return settings;
+    const status = budgetStatus(this.usage, settings.modelPrices, settings.budget);
+    if (!status?.exceeded) return settings;
+
+    const message = `This month's estimated LLM cost (${formatCost(status.spent)}) has reached the ${formatCost(status.limit)} budget.`;
+    if (settings.budget.action === "warn") {
+      new Notice(message, BUDGET_NOTICE_MS);
+      return settings;
+    }
+    if (!settings.fallbackToHeuristic) {
+      throw new Error(`${message} Raise the budget in settings or switch to offline ranking.`);
+    }
+    new Notice(`${message} Ranking offline instead.`, BUDGET_NOTICE_MS);
+    return { ...settings, rankingMode: "heuristic" };
+  }
+
+  // Failed and cancelled runs are recorded too: their completed calls were still billed
+  private recordUsage(meter: UsageMeter, profile: RankingProfile, tasks: number): void {
+    const record = meter.record({
+      provider: this.settings.provider,
+      model: resolveModel(this.settings, profile.model),
+      tasks,
+    });
+    if (!record) return;
+    this.usage = recordUsage(this.usage, record);
+    this.savePluginData().catch((e) => error("Failed to save usage:", e));
+  }
+
+  async clearUsage(): Promise<void> {
+    this.usage = [];
+    await this.savePluginData();
+  }
+
+  private renderOptions(profile: RankingProfile, params: ManagedBlockParams): RenderOptions {
+    return {
+      output: profile.outputFormat,
+      rationale: this.settings.rationaleFormat,
+      budgetMinutes: params.budget ?? null,
+      dependencies: this.dependencyGraph(),
+    };
+  }
+
+  /**
+   * Block IDs are written only onto the tasks being output, and only when
+   * the output format references blocks. Writes are previewed (if enabled),
+   * journaled for undo, and skipped for lines that changed in the meantime.
+   * Returns null if the user cancels the preview.
+   */
+  private async stampBlockIds(
+    entries: RankedEntry[],
+    profile: RankingProfile
+  ): Promise<RankedEntry[] | null> {
+    if (!needsBlockIds(profile.outputFormat)) return entries;
+
+    const stamped = await this.ensureBlockIds(entries.map((e) => e.task));
+    if (!stamped) return null;
+    const result: RankedEntry[] = [];
+    for (const entry of entries) {
+      const task = stamped.get(entry.task);
+      if (task) result.push({ task, ranking: { ...entry.ranking, id: task.id } });
+    }
+    return result;
+  }
+
+  /**
+   * Writes block IDs onto the tasks that lack one, after confirmation if
+   * enabled, and maps each task to a copy carrying its ID. Tasks that changed
+   * before they could be stamped are left out. Null when cancelled.
+   */
+  private async ensureBlockIds(tasks: TaskItem[]): Promise<Map<TaskItem, TaskItem> | null> {
+    const planned = await planBlockIds(this.app, tasks);
+    if (planned.length && this.settings.confirmBackgroundEdits) {
+      if (!(await confirmChanges(this.app, planned))) return null;
+    }
+
+    const applied = await applyLineChanges(this.app, planned);
+    if (applied.length) {
+      await this.recordJournal("Added block IDs", applied);
+      await waitForIndexing(this.app, [...new Set(applied.map((c) => c.path))]);
+    }
+
+    const assigned = new Map(applied.map((c) => [c.task, c.blockId]));
+    const result = new Map<TaskItem, TaskItem>();
+    for (const task of tasks) {
+      const blockId = task.blockId ?? assigned.get(task);
+      if (blockId) result.set(task, { ...task, id: blockId, blockId });
+    }
+    if (result.size < tasks.length) {
+      new Notice(`${tasks.length - result.size} task(s) changed before they could be linked and were skipped.`);
+    }
+    return result;
+  }
+
+  async recordJournal(label: string, changes: LineChange[]): Promise<void> {
+    this.journal = recordJournalEntry(
+      this.journal,
+      { id: new Date().toISOString(), label, changes: changes.map(toLineChange) },
+      JOURNAL_LIMIT
+    );
+    await this.savePluginData();
+  }
+
+  private async undoLastChanges(): Promise<void> {
+    const entry = this.journal[this.journal.length - 1];
+    if (!entry) {
+      new Notice("Nothing to undo.");
+      return;
+    }
+    const reverted = await applyLineChanges(this.app, invertChanges(entry.changes));
+    this.journal = this.journal.slice(0, -1);
+    await this.savePluginData();
+
+    const skipped = entry.changes.length - reverted.length;
+    new Notice(
+      `Undid “${entry.label}”: reverted ${reverted.length} line(s)` +
+        (skipped ? `, ${skipped} skipped because the line was edited since.` : ".")
+    );
+  }
+
+  /**
+   * Shows what ranking into the active note would send to the model, after
+   * filters and privacy rules, for the profile's default task count. Nothing
+   * is sent.
+   */
+  private async previewPayload(profile: RankingProfile): Promise<void> {
+    const activeFile = this.app.workspace.getActiveFile();
+    const collected = await this.collectTasks(profile, activeFile);
+    const dependencies = this.dependencyGraph();
+    const { tasks } = applyTaskFilters(collected, this.settings.filters, new Date(), dependencies);
+    if (!tasks.length) {
+      new Notice(collected.length ? "No open tasks match the filter rules." : "No open tasks found.");
+      return;
+    }
+    const { text: priorities } = await resolvePriorities(this.vault, profile.priorities, activeFile?.path ?? null);
+    const preview = previewRankingPayload(this.settings, {
+      prioritiesText: priorities,
+      tasks,
+      maxTasks: profile.defaultCount,
+      rankingPrompt: profile.rankingPrompt,
+      model: profile.model,
+      feedback: this.correctionExamples(),
+      dependencies,
+    });
+    showPayload(this.app, profile, preview);
+  }
+
+  /**
+   * Writes a review note for the profile's tasks: open tasks by age, tasks
+   * ranked again and again without being done, completions since the last
+   * review and, in AI mode, what the model suggests dropping or breaking
+   * down. Tasks are embedded, so block IDs are written first.
+   */
+  private async generateReview(profile: RankingProfile): Promise<void> {
+    const progress = new ProgressNotice("Collecting tasks for the review…");
+    try {
+      const reviewSettings = this.settings.review;
+      const collected = await this.collectTasks(profile, null);
+      const { tasks } = applyTaskFilters(collected, this.settings.filters);
+      const now = new Date();
+      const since = this.lastReviewAt
+        ? this.lastReviewAt.slice(0, 10)
+        : formatIsoDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - FIRST_REVIEW_LOOKBACK_DAYS));
+      const completed = this.taskIndex.getCompletedTasks(profile.folders);
+      const review = buildReview(tasks, completed, this.history, since, reviewSettings, now);
+
+      if (reviewSettings.suggestions) {
+        const settings = this.settingsWithinBudget();
+        if (settings.rankingMode !== "ai") {
+          review.suggestionsNote = "Suggestions need AI ranking mode.";
+        } else {
+          progress.update(`Asking ${resolveProvider(settings).label} for suggestions…`);
+          const { text: priorities } = await resolvePriorities(
+            this.vault,
+            profile.priorities,
+            this.app.workspace.getActiveFile()?.path ?? null
+          );
+          const meter = createUsageMeter();
+          const candidates = suggestionCandidates(review, tasks, reviewSettings.staleDays);
+          try {
+            review.suggestions = candidates.length
+              ? await suggestCleanup(settings, candidates, review, priorities, {
+                  model: profile.model,
+                  signal: progress.signal,
+                  onUsage: (usage) => meter.add(usage),
+                })
+              : [];
+          } catch (e: unknown) {
+            if (progress.cancelled) throw e;
+            warn("Review suggestions failed:", e);
+            const msg = e instanceof Error ? e.message : String(e);
+            review.suggestionsNote = `The model couldn't make suggestions: ${msg}`;
+          } finally {
+            this.recordUsage(meter, profile, candidates.length);
+          }
+        }
+      }
+      if (progress.cancelled) return;
+      progress.finish();
+
+      const stamped = await this.ensureBlockIds(reviewedTasks(review));
+      if (!stamped) {
+        new Notice("Cancelled. No files were changed.");
+        return;
+      }
+      const content = renderReview(review, (task) => {
+        const withId = stamped.get(task);
+        return withId ? taskEmbed(withId) : null;
+      });
+      const file = await this.createReviewNote(`Task review ${review.date}`, content);
+      this.lastReviewAt = now.toISOString();
+      await this.savePluginData();
+      await this.app.workspace.getLeaf(true).openFile(file);
+    } catch (e: unknown) {
+      if (progress.cancelled) {
+        progress.finish("Cancelled. No files were changed.");
+        return;
+      }
+      throw e;
+    } finally {
+      progress.finish();
+    }
+  }
+
+  // Creates the note in the review folder, numbering it if the name is taken
+  private async createReviewNote(name: string, content: string): Promise<TFile> {
+    const folder = normalizeFolderPath(this.settings.review.folder);
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    const prefix = folder ? `${folder}/` : "";
+    let path = `${prefix}${name}.md`;
+    for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+      path = `${prefix}${name} ${n}.md`;
+    }
+    return this.app.vault.create(path, content);
+  }
+
+  async collectTasks(profile: RankingProfile, exclude: TFile | null): Promise<TaskItem[]> {
+    await this.taskIndex.ready();
+    return this.taskIndex.getOpenTasks(profile.folders, exclude);
+  }
+
+  // Built from the whole index, since a ⛔ may point outside the profile's folders
+  dependencyGraph(): DependencyGraph {
+    return buildDependencyGraph(this.taskIndex.getDependencyContext());
+  }
+
+  async activateView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(RANKED_TASKS_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: RANKED_TASKS_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  refreshViews(): void {
+    for (const leaf of this.app.workspace.getLeavesOfType(RANKED_TASKS_VIEW_TYPE)) {
+      if (leaf.view instanceof RankedTasksView) leaf.view.render();
+    }
+  }
+
+  async rerankLatest(): Promise<void> {
+    try {
+      const source = this.latestRanking?.sourcePath
+        ? this.app.vault.getAbstractFileByPath(this.latestRanking.sourcePath)
+        : this.app.workspace.getActiveFile();
+      if (!(source instanceof TFile)) {
+        new Notice("Open a note with priorities first.");
+        return;
+      }
+      const profile = this.profileFor(this.latestRanking?.params.profile ?? null);
+      const target: PickTarget = this.latestRanking
+        ? pickTargetOf(this.latestRanking.params)
+        : { kind: "count", count: profile.defaultCount };
+      const run = await this.runRanking(source, profile, target);
+      if (run) new Notice("Re-ranked tasks ✅");
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      error("Command failure:", e);
+      new Notice(`AI Task Picker error: ${msg}`);
+    }
+  }
+
+  async insertLatestIntoActiveNote(): Promise<void> {
+    const ranking = this.latestRanking;
+    if (!ranking || ranking.entries.length === 0) {
+      new Notice("No ranked tasks to insert.");
+      return;
+    }
+    const view = this.app.workspace.getMostRecentLeaf()?.view;
+    if (!(view instanceof MarkdownView)) {
+      new Notice("Open a note to insert into first.");
+      return;
+    }
+    // The list may have been ranked under a format that didn't need block IDs
+    const profile = this.profileFor(ranking.params.profile);
+    const entries = await this.stampBlockIds(ranking.entries, profile);
+    if (!entries) {
+      new Notice("Cancelled. No files were changed.");
+      return;
+    }
+    ranking.entries = entries;
+    const params: ManagedBlockParams = { ...ranking.params, count: ranking.entries.length };
+    insertTextAtCursor(
+      view.editor,
+      view.editor.getCursor(),
+      wrapManagedBlock(renderRankedTasks(ranking.entries, this.renderOptions(profile, params)), params)
+    );
+    new Notice("Inserted ranked task embeds ✅");
+  }
+
+  addCorrection(runId: string, correction: Omit<RankingCorrection, "at">): void {
+    if (!recordCorrection(this.history, runId, correction)) return;
+    this.savePluginData().catch((e) => error("Failed to save history:", e));
+  }
+
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    await this.savePluginData();
+  }
+
+  private async savePluginData(): Promise<void> {
+    await this.saveData({ ...this.settings, history: this.history, journal: this.journal, usage: this.usage, lastReviewAt: this.lastReviewAt });
   }
-}
\ No newline at end of file
+}
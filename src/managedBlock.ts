@@ -0,0 +1,115 @@
+import { normalizeBlockId } from "./utils";
+import { PickTarget } from "./types";
+import { OutputFormat } from "./output";
+
+export interface ManagedBlockParams {
+  count: number;
+  budget?: number; // minutes, when the tasks were picked to fill a time budget
+  profile: string;
+  ranAt: string; // ISO timestamp of the run that produced the block
+  output?: OutputFormat; // how the tasks were written; missing in blocks from older versions
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ["embed", "link", "copy", "query"];
+
+export interface ManagedBlock {
+  params: ManagedBlockParams;
+  startLine: number; // line of the start marker
+  endLine: number;   // line of the end marker
+  body: string;
+}
+
+export interface EmbeddedTaskRef {
+  note: string;
+  id: string;
+}
+
+const START_MARKER = /^<!--\s*ai-task-picker:start\s*(\{.*\})?\s*-->\s*$/;
+const END_MARKER = /^<!--\s*ai-task-picker:end\s*-->\s*$/;
+
+function parseParams(raw: string | undefined): ManagedBlockParams {
+  let parsed: any = {};
+  try {
+    parsed = raw ? JSON.parse(raw) : {};
+  } catch {
+    // Hand-edited marker; fall back to defaults below
+  }
+  const count = Math.floor(Number(parsed?.count));
+  const budget = Math.floor(Number(parsed?.budget));
+  return {
+    count: Number.isFinite(count) && count >= 1 ? count : 5,
+    ...(Number.isFinite(budget) && budget >= 1 ? { budget } : {}),
+    profile: typeof parsed?.profile === "string" ? parsed.profile : "default",
+    ranAt: typeof parsed?.ranAt === "string" ? parsed.ranAt : "",
+    ...(OUTPUT_FORMATS.includes(parsed?.output) ? { output: parsed.output as OutputFormat } : {}),
+  };
+}
+
+export function pickTargetOf(params: ManagedBlockParams): PickTarget {
+  return params.budget
+    ? { kind: "budget", minutes: params.budget }
+    : { kind: "count", count: params.count };
+}
+
+export function wrapManagedBlock(body: string, params: ManagedBlockParams): string {
+  const content = body.endsWith("\n") ? body : `${body}\n`;
+  return (
+    `<!-- ai-task-picker:start ${JSON.stringify(params)} -->\n` +
+    content +
+    `<!-- ai-task-picker:end -->\n`
+  );
+}
+
+export function findManagedBlocks(text: string): ManagedBlock[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: ManagedBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const start = (lines[i] ?? "").match(START_MARKER);
+    if (!start) continue;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (START_MARKER.test(lines[j] ?? "")) break;
+      if (!END_MARKER.test(lines[j] ?? "")) continue;
+      blocks.push({
+        params: parseParams(start[1]),
+        startLine: i,
+        endLine: j,
+        body: lines.slice(i + 1, j).join("\n"),
+      });
+      i = j;
+      break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Lines inside managed blocks, markers included. Copied task lines there
+ * duplicate tasks that live elsewhere, so they are never collected.
+ */
+export function managedBlockLines(lines: string[]): Set<number> {
+  const inside = new Set<number>();
+  for (const block of findManagedBlocks(lines.join("\n"))) {
+    for (let i = block.startLine; i <= block.endLine; i++) inside.add(i);
+  }
+  return inside;
+}
+
+// The block containing `nearLine`, else the first block in the note
+export function findManagedBlock(text: string, nearLine = -1): ManagedBlock | null {
+  const blocks = findManagedBlocks(text);
+  return (
+    blocks.find((b) => nearLine >= b.startLine && nearLine <= b.endLine) ??
+    blocks[0] ??
+    null
+  );
+}
+
+export function parseEmbeddedTaskRefs(body: string): EmbeddedTaskRef[] {
+  const refs: EmbeddedTaskRef[] = [];
+  for (const m of body.matchAll(/!?\[\[([^\]#|]+)#\^([A-Za-z0-9\-_]+)(?:\|[^\]]*)?\]\]/g)) {
+    if (m[1] && m[2]) refs.push({ note: m[1], id: normalizeBlockId(m[2]) });
+  }
+  return refs;
+}
@@ -1,7 +1,14 @@
-import { App, Modal, Notice } from "obsidian";
+import { App, FuzzySuggestModal, Modal, Notice } from "obsidian";
+import { LineChange } from "./journal";
+import { RankingProfile } from "./profiles";
+import { ResolvedPriorities } from "./priorities";
+import { PayloadPreview } from "./ranker";
+import { RankedEntry } from "./output";
+import { PickTarget } from "./types";
+import { parsePickTarget } from "./timeBudget";
 
-export class NumberPromptModal extends Modal {
-  private resolve!: (value: number | null) => void;
+export class PickTargetModal extends Modal {
+  private resolve!: (value: PickTarget | null) => void;
   private initial: number;
 
   constructor(app: App, initial = 5) {
@@ -12,11 +19,15 @@ export class NumberPromptModal extends Modal {
   onOpen(): void {
     const { contentEl } = this;
     contentEl.empty();
-    contentEl.createEl("h3", { text: "How many tasks should I surface?" });
+    contentEl.createEl("h3", { text: "How many tasks, or how much time?" });
+    contentEl.createEl("p", {
+      text: "Enter a number of tasks (e.g. 5) or a time budget to fill (e.g. 90m, 2h, 1h30m).",
+      cls: "setting-item-description",
+    });
 
     const input = contentEl.createEl("input", {
-      type: "number",
-      attr: { min: "1", step: "1" },
+      type: "text",
+      attr: { placeholder: "5 or 2h" },
     }) as HTMLInputElement;
     input.value = String(this.initial);
     input.style.margin = "0.5em 0";
@@ -34,12 +45,12 @@ export class NumberPromptModal extends Modal {
     const cancel = buttons.createEl("button", { text: "Cancel" });
 
     const submit = () => {
-      const taskCount = Number(input.value);
-      if (Number.isFinite(taskCount) && taskCount >= 1) {
-        this.resolve(Math.floor(taskCount));
+      const target = parsePickTarget(input.value);
+      if (target) {
+        this.resolve(target);
         this.close();
       } else {
-        new Notice("Please enter a number ≥ 1");
+        new Notice("Enter a number ≥ 1 or a duration such as 90m or 2h");
       }
     };
 
@@ -61,7 +72,7 @@ export class NumberPromptModal extends Modal {
     this.contentEl.empty();
   }
 
-  prompt(): Promise<number | null> {
+  prompt(): Promise<PickTarget | null> {
     return new Promise((resolve) => {
       this.resolve = resolve;
       this.open();
@@ -69,10 +80,365 @@ export class NumberPromptModal extends Modal {
   }
 }
 
-export async function promptForCount(
+export async function promptForTarget(
   app: App,
   initial = 5
-): Promise<number | null> {
-  const modal = new NumberPromptModal(app, initial);
+): Promise<PickTarget | null> {
+  const modal = new PickTargetModal(app, initial);
   return modal.prompt();
 }
+
+export class ChangePreviewModal extends Modal {
+  private resolve!: (approved: boolean) => void;
+  private changes: LineChange[];
+  private settled = false;
+
+  constructor(app: App, changes: LineChange[]) {
+    super(app);
+    this.changes = changes;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Add block IDs to these tasks?" });
+    contentEl.createEl("p", {
+      text: `Embedding needs a block ID on each source task. ${this.changes.length} line(s) will be changed. You can revert them later with “Undo last AI Task Picker changes”.`,
+    });
+
+    const byPath = new Map<string, LineChange[]>();
+    for (const change of this.changes) {
+      byPath.set(change.path, [...(byPath.get(change.path) ?? []), change]);
+    }
+
+    const list = contentEl.createDiv({ cls: "ai-task-picker-preview" });
+    for (const [path, changes] of byPath) {
+      list.createEl("h4", { text: path });
+      const ul = list.createEl("ul");
+      for (const change of changes) {
+        const li = ul.createEl("li");
+        li.createEl("code", { text: `L${change.line + 1}` });
+        li.createSpan({ text: ` ${change.after.trim()}` });
+      }
+    }
+
+    const buttons = contentEl.createDiv({ cls: "ai-task-picker-modal__buttons" });
+    const approve = buttons.createEl("button", { text: "Apply", cls: "mod-cta" });
+    const cancel = buttons.createEl("button", { text: "Cancel" });
+    approve.addEventListener("click", () => this.finish(true));
+    cancel.addEventListener("click", () => this.finish(false));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    // Closing with Escape or the X counts as cancel
+    this.finish(false);
+  }
+
+  private finish(approved: boolean): void {
+    if (this.settled) return;
+    this.settled = true;
+    this.resolve(approved);
+    this.close();
+  }
+
+  prompt(): Promise<boolean> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+}
+
+export async function confirmChanges(app: App, changes: LineChange[]): Promise<boolean> {
+  return new ChangePreviewModal(app, changes).prompt();
+}
+
+/**
+ * Shows a ranking before it is inserted and takes follow-up instructions
+ * ("fewer admin tasks", "I only have an hour") for as many rounds as
+ * needed. Resolves with the final picks, or null when cancelled.
+ */
+export class RefineRankingModal extends Modal {
+  private resolve!: (entries: RankedEntry[] | null) => void;
+  private entries: RankedEntry[];
+  private refine: ((instruction: string) => Promise<RankedEntry[]>) | null;
+  private instructions: string[] = [];
+  private settled = false;
+
+  // `refine` is null when the ranking can't be continued (offline ranking)
+  constructor(app: App, entries: RankedEntry[], refine: ((instruction: string) => Promise<RankedEntry[]>) | null) {
+    super(app);
+    this.entries = entries;
+    this.refine = refine;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Refine the ranking" });
+
+    const list = contentEl.createDiv({ cls: "ai-task-picker-preview" });
+    const asked = contentEl.createDiv();
+    const renderList = () => {
+      list.empty();
+      if (!this.entries.length) {
+        list.createEl("p", { text: "No tasks picked. Ask for something different or cancel." });
+      }
+      const ol = this.entries.length ? list.createEl("ol") : null;
+      for (const { task, ranking } of this.entries) {
+        const li = (ol as HTMLOListElement).createEl("li");
+        li.createSpan({ text: task.description || task.text });
+        li.createSpan({ text: ` · ${task.noteTitle}`, cls: "setting-item-description" });
+        if (ranking.reason) li.createDiv({ text: ranking.reason, cls: "setting-item-description" });
+      }
+      asked.empty();
+      if (this.instructions.length) {
+        asked.createEl("h4", { text: "You asked" });
+        const ul = asked.createEl("ul");
+        for (const instruction of this.instructions) ul.createEl("li", { text: instruction });
+      }
+    };
+    renderList();
+
+    let input: HTMLTextAreaElement | null = null;
+    let refineButton: HTMLButtonElement | null = null;
+    const refine = this.refine;
+    if (refine) {
+      input = contentEl.createEl("textarea", {
+        attr: { rows: "2", placeholder: "e.g. fewer admin tasks, or I'm only at my laptop for an hour" },
+      });
+      input.style.width = "100%";
+      input.style.marginTop = "0.75em";
+      input.focus();
+    } else {
+      contentEl.createEl("p", {
+        text: "This ranking was made offline, so it can't be refined. Insert it as is or cancel.",
+        cls: "setting-item-description",
+      });
+    }
+
+    const buttons = contentEl.createDiv({ cls: "ai-task-picker-modal__buttons" });
+    if (refine && input) {
+      const field = input;
+      refineButton = buttons.createEl("button", { text: "Refine" });
+      const submit = async () => {
+        const instruction = field.value.trim();
+        if (!instruction || !refineButton || refineButton.disabled) return;
+        refineButton.disabled = true;
+        refineButton.setText("Re-ranking…");
+        try {
+          this.entries = await refine(instruction);
+          this.instructions.push(instruction);
+          field.value = "";
+          renderList();
+        } catch (e: unknown) {
+          const msg = e instanceof Error ? e.message : String(e);
+          new Notice(`AI Task Picker error: ${msg}`);
+        } finally {
+          refineButton.disabled = false;
+          refineButton.setText("Refine");
+        }
+      };
+      refineButton.addEventListener("click", submit);
+      field.addEventListener("keydown", (e: KeyboardEvent) => {
+        if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit();
+      });
+    }
+    const insert = buttons.createEl("button", { text: "Insert", cls: "mod-cta" });
+    const cancel = buttons.createEl("button", { text: "Cancel" });
+    insert.addEventListener("click", () => this.finish(this.entries));
+    cancel.addEventListener("click", () => this.finish(null));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    // Closing with Escape or the X counts as cancel
+    this.finish(null);
+  }
+
+  private finish(entries: RankedEntry[] | null): void {
+    if (this.settled) return;
+    this.settled = true;
+    this.resolve(entries);
+    this.close();
+  }
+
+  prompt(): Promise<RankedEntry[] | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+}
+
+export async function refineRankingInModal(
+  app: App,
+  entries: RankedEntry[],
+  refine: ((instruction: string) => Promise<RankedEntry[]>) | null
+): Promise<RankedEntry[] | null> {
+  return new RefineRankingModal(app, entries, refine).prompt();
+}
+
+export class ProfilePickerModal extends FuzzySuggestModal<RankingProfile> {
+  private resolve!: (profile: RankingProfile | null) => void;
+  private profiles: RankingProfile[];
+  private settled = false;
+
+  constructor(app: App, profiles: RankingProfile[]) {
+    super(app);
+    this.profiles = profiles;
+    this.setPlaceholder("Rank tasks with which profile?");
+  }
+
+  getItems(): RankingProfile[] {
+    return this.profiles;
+  }
+
+  getItemText(profile: RankingProfile): string {
+    return profile.name;
+  }
+
+  onChooseItem(profile: RankingProfile): void {
+    this.finish(profile);
+  }
+
+  onClose(): void {
+    // onClose runs before onChooseItem, so wait a tick before treating it as cancel
+    window.setTimeout(() => this.finish(null), 0);
+  }
+
+  private finish(profile: RankingProfile | null): void {
+    if (this.settled) return;
+    this.settled = true;
+    this.resolve(profile);
+  }
+
+  prompt(): Promise<RankingProfile | null> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+}
+
+export async function pickProfile(
+  app: App,
+  profiles: RankingProfile[]
+): Promise<RankingProfile | null> {
+  return new ProfilePickerModal(app, profiles).prompt();
+}
+
+export class PrioritiesPreviewModal extends Modal {
+  private profile: RankingProfile;
+  private resolved: ResolvedPriorities;
+
+  constructor(app: App, profile: RankingProfile, resolved: ResolvedPriorities) {
+    super(app);
+    this.profile = profile;
+    this.resolved = resolved;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: `Priorities for “${this.profile.name}”` });
+
+    const { sections, missing, text } = this.resolved;
+    if (!sections.length) {
+      contentEl.createEl("p", { text: "No priorities were found. Ranking would stop here." });
+    }
+
+    const list = contentEl.createDiv({ cls: "ai-task-picker-preview" });
+    for (const section of sections) {
+      list.createEl("h4", { text: section.source });
+      list.createEl("pre", { text: section.text });
+    }
+
+    if (missing.length) {
+      contentEl.createEl("h4", { text: "Sources with nothing to read" });
+      const ul = contentEl.createEl("ul");
+      for (const line of missing) ul.createEl("li", { text: line });
+    }
+
+    const buttons = contentEl.createDiv({ cls: "ai-task-picker-modal__buttons" });
+    if (text.trim()) {
+      buttons.createEl("button", { text: "Copy text sent for ranking" }).addEventListener("click", async () => {
+        await navigator.clipboard.writeText(text);
+        new Notice("Copied priorities");
+      });
+    }
+    buttons.createEl("button", { text: "Close", cls: "mod-cta" }).addEventListener("click", () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+export function showPriorities(app: App, profile: RankingProfile, resolved: ResolvedPriorities): void {
+  new PrioritiesPreviewModal(app, profile, resolved).open();
+}
+
+export class PayloadPreviewModal extends Modal {
+  private profile: RankingProfile;
+  private preview: PayloadPreview;
+
+  constructor(app: App, profile: RankingProfile, preview: PayloadPreview) {
+    super(app);
+    this.profile = profile;
+    this.preview = preview;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: `LLM payload for “${this.profile.name}”` });
+
+    const { offline, requests, laterRounds, excluded, masked, notes } = this.preview;
+    const summary = contentEl.createEl("ul");
+    if (offline) summary.createEl("li", { text: "Ranking mode is offline, so nothing is sent. This is what AI mode would send." });
+    summary.createEl("li", {
+      text: requests.length === 1 ? "1 request." : `${requests.length} requests in the first round.`,
+    });
+    if (laterRounds) summary.createEl("li", { text: "Later rounds resend the shortlisted tasks from these requests." });
+    if (excluded) summary.createEl("li", { text: `${excluded} task(s) held back by privacy tags.` });
+    if (masked) summary.createEl("li", { text: `${masked} value(s) masked by redaction patterns.` });
+    if (notes) summary.createEl("li", { text: `${notes} note(s) replaced by aliases.` });
+
+    const list = contentEl.createDiv({ cls: "ai-task-picker-preview" });
+    requests.forEach((messages, i) => {
+      if (requests.length > 1) list.createEl("h4", { text: `Request ${i + 1}` });
+      for (const message of messages) {
+        list.createEl("h4", { text: message.role });
+        list.createEl("pre", { text: prettyJson(message.content) });
+      }
+    });
+
+    const buttons = contentEl.createDiv({ cls: "ai-task-picker-modal__buttons" });
+    if (requests.length) {
+      buttons.createEl("button", { text: "Copy payload" }).addEventListener("click", async () => {
+        await navigator.clipboard.writeText(JSON.stringify(requests, null, 2));
+        new Notice("Copied payload");
+      });
+    }
+    buttons.createEl("button", { text: "Close", cls: "mod-cta" }).addEventListener("click", () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+// The user message is compact JSON; indent it for reading
+function prettyJson(content: string): string {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2);
+  } catch {
+    return content;
+  }
+}
+
+export function showPayload(app: App, profile: RankingProfile, preview: PayloadPreview): void {
+  new PayloadPreviewModal(app, profile, preview).open();
+}
@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import moment from "moment";
+import { VaultAdapter } from "./vault";
+
+// Obsidian's own folders, version control and the trash never hold notes to rank
+const SKIPPED_DIRS = new Set([".obsidian", ".trash", ".git", "node_modules"]);
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (/^(['"]).*\1$/.test(value)) return value.slice(1, -1);
+  if (value === "" || value === "~" || value === "null") return null;
+  if (value === "true" || value === "false") return value === "true";
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value
+      .slice(1, -1)
+      .split(",")
+      .map((v) => parseScalar(v))
+      .filter((v) => v != null);
+  }
+  return value;
+}
+
+/**
+ * Reads the top-level keys of a note's YAML frontmatter: scalars, inline
+ * `[a, b]` lists and `- item` block lists. Nested maps are not supported;
+ * Obsidian's properties don't use them either.
+ */
+export function parseFrontmatter(content: string): Record<string, unknown> | null {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (!match) return null;
+
+  const result: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  for (const line of (match[1] ?? "").split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      const list = result[listKey];
+      const value = parseScalar(item[1] ?? "");
+      if (Array.isArray(list) && value != null) list.push(value);
+      continue;
+    }
+    const pair = line.match(/^([^\s:#][^:]*):\s*(.*)$/);
+    if (!pair) continue;
+    const key = (pair[1] ?? "").trim();
+    const raw = pair[2] ?? "";
+    if (raw.trim() === "") {
+      // A key with nothing after it may start a block list
+      result[key] = [];
+      listKey = key;
+    } else {
+      result[key] = parseScalar(raw);
+      listKey = null;
+    }
+  }
+  return result;
+}
+
+/** A vault read straight from disk, for the command line. */
+export function createNodeVault(root: string): VaultAdapter {
+  const resolve = (notePath: string) => path.join(root, ...notePath.split("/"));
+
+  async function walk(dir: string, prefix: string, out: string[]): Promise<void> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) await walk(path.join(dir, entry.name), relative, out);
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) {
+        out.push(relative);
+      }
+    }
+  }
+
+  async function read(notePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(resolve(notePath), "utf8");
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+      throw e;
+    }
+  }
+
+  return {
+    async listMarkdownFiles() {
+      const files: string[] = [];
+      await walk(root, "", files);
+      return files.sort();
+    },
+    read,
+    async frontmatter(notePath) {
+      const content = await read(notePath);
+      return content == null ? null : parseFrontmatter(content);
+    },
+    formatDate(date, format) {
+      return moment(date).format(format);
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { App, TFile, moment } from "obsidian";
+import { VaultAdapter } from "./vault";
+
+export function createObsidianVault(app: App): VaultAdapter {
+  const fileAt = (path: string): TFile | null => {
+    const file = app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  };
+
+  return {
+    async listMarkdownFiles() {
+      return app.vault.getMarkdownFiles().map((f) => f.path);
+    },
+    async read(path) {
+      const file = fileAt(path);
+      // Not cachedRead: priorities may have been typed moments ago
+      return file ? app.vault.read(file) : null;
+    },
+    async frontmatter(path) {
+      const file = fileAt(path);
+      return (file && app.metadataCache.getFileCache(file)?.frontmatter) ?? null;
+    },
+    formatDate(date, format) {
+      return moment(date).format(format);
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { parseTaskLine } from "./taskMetadata";
+import { DEFAULT_TASK_STATUSES, TaskStatusTable, isActionable, statusOf } from "./taskStatus";
+
+/** A list item: its line, its parent item's line, and its checkbox status if it is a task. */
+export interface OutlineItem {
+  line: number;
+  parent: number | null;
+  status: string | null; // the character between the brackets; null for plain bullets
+}
+
+export interface OutlineHeading {
+  line: number;
+  level: number;
+  text: string;
+}
+
+/** Where a task sits in its note. */
+export interface TaskPlacement {
+  headingPath: string[]; // enclosing headings, outermost first
+  parents: string[];     // enclosing tasks' descriptions, outermost first
+  parentTags: string[][]; // each enclosing task's tags, aligned with parents
+  subtasks: { total: number; open: number }; // tasks nested directly under this one; open includes in-progress
+}
+
+const LIST_ITEM_TEXT =
+  /^(?:[ \t]*>[ \t]?)*[ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+(?:\[.\][ \t]+)?(.*?)(?:\s+\^[A-Za-z0-9_-]+)?\s*$/;
+
+function parseItem(line: string): { description: string; tags: string[] } {
+  const m = line.match(LIST_ITEM_TEXT);
+  const { description, metadata } = parseTaskLine(m?.[1] ?? line.trim());
+  return { description, tags: metadata.tags };
+}
+
+/**
+ * Works out the heading breadcrumb, enclosing tasks and subtask counts of
+ * every task item. Plain bullets between a task and its parent task are
+ * looked through. Keyed by line number.
+ */
+export function placeTasks(
+  lines: string[],
+  items: OutlineItem[],
+  headings: OutlineHeading[],
+  statuses: TaskStatusTable = DEFAULT_TASK_STATUSES
+): Map<number, TaskPlacement> {
+  const byLine = new Map(items.map((item) => [item.line, item]));
+
+  // The nearest enclosing item that is a task
+  const parentTask = (item: OutlineItem): OutlineItem | null => {
+    let parent = item.parent != null ? byLine.get(item.parent) : undefined;
+    while (parent && parent.status == null) {
+      parent = parent.parent != null ? byLine.get(parent.parent) : undefined;
+    }
+    return parent ?? null;
+  };
+
+  const placements = new Map<number, TaskPlacement>();
+  const sortedHeadings = [...headings].sort((a, b) => a.line - b.line);
+  const headingStack: OutlineHeading[] = [];
+  let nextHeading = 0;
+
+  for (const item of [...items].sort((a, b) => a.line - b.line)) {
+    while (nextHeading < sortedHeadings.length && (sortedHeadings[nextHeading]?.line ?? 0) < item.line) {
+      const heading = sortedHeadings[nextHeading++] as OutlineHeading;
+      while (headingStack.length && (headingStack[headingStack.length - 1]?.level ?? 0) >= heading.level) {
+        headingStack.pop();
+      }
+      headingStack.push(heading);
+    }
+    if (item.status == null) continue;
+
+    const parents: string[] = [];
+    const parentTags: string[][] = [];
+    for (let parent = parentTask(item); parent; parent = parentTask(parent)) {
+      const { description, tags } = parseItem(lines[parent.line] ?? "");
+      parents.unshift(description);
+      parentTags.unshift(tags);
+    }
+    placements.set(item.line, {
+      headingPath: headingStack.map((h) => h.text),
+      parents,
+      parentTags,
+      subtasks: { total: 0, open: 0 },
+    });
+  }
+
+  for (const item of items) {
+    if (item.status == null) continue;
+    const parent = parentTask(item);
+    const counts = parent ? placements.get(parent.line)?.subtasks : undefined;
+    if (!counts) continue;
+    counts.total++;
+    if (isActionable(statusOf(item.status, statuses))) counts.open++;
+  }
+  return placements;
+}
+
+/** Frontmatter `aliases` (or `alias`), as a list or a single value. */
+export function frontmatterAliases(frontmatter: Record<string, unknown> | null | undefined): string[] {
+  const raw = frontmatter?.aliases ?? frontmatter?.alias;
+  const values = Array.isArray(raw) ? raw : raw != null ? [raw] : [];
+  return values.map((value) => String(value).trim()).filter(Boolean);
+}
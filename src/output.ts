@@ -0,0 +1,188 @@
+import { RankedTask, TaskItem } from "./types";
+import { ensureMd, formatDuration } from "./utils";
+import { taskEstimate } from "./timeBudget";
+import { DependencyGraph, describeDependencies } from "./dependencies";
+import { plainTextRuns, stripTaskIdentity } from "./taskMetadata";
+
+export type OutputFormat = "embed" | "link" | "copy" | "query";
+
+export type RationaleFormat = "none" | "callout" | "footnote" | "summary";
+
+export interface RenderOptions {
+  output: OutputFormat;
+  rationale: RationaleFormat;
+  budgetMinutes?: number | null; // the time budget the tasks were picked for
+  dependencies?: DependencyGraph | null; // shows what picked tasks unblock or wait on
+}
+
+export interface RankedEntry {
+  task: TaskItem;
+  ranking: RankedTask;
+}
+
+// Only block references need a `^id` on the source line
+export function needsBlockIds(format: OutputFormat): boolean {
+  return format === "embed" || format === "link";
+}
+
+export function taskEmbed(task: TaskItem): string {
+  return `![[${ensureMd(task.note)}#^${task.id}]]`;
+}
+
+function taskLine(task: TaskItem, format: OutputFormat): string {
+  switch (format) {
+    case "link": {
+      // `|` and brackets would end the link alias early
+      const alias = (task.description || task.text).replace(/[|[\]]/g, " ").trim();
+      return `- [[${ensureMd(task.note)}#^${task.id}|${alias}]]`;
+    }
+    case "copy":
+      // The copy keeps the status but not the 🆔, ⛔ or 🔁 that belong to the original
+      return `- [${task.statusSymbol}] ${stripTaskIdentity(task.text)}`;
+    default:
+      return taskEmbed(task);
+  }
+}
+
+function jsString(value: string): string {
+  return JSON.stringify(value);
+}
+
+// Tasks plugin query matching each pick by path and the plain text of its
+// line, in rank order. The Tasks plugin keeps tags and fields in its
+// description, so our cleaned description can't be matched as one piece.
+function tasksQuery(entries: RankedEntry[]): string {
+  const picks = entries.map(({ task }) => {
+    // A line of nothing but tags and fields still needs something to match on
+    const text = plainTextRuns(task.text);
+    const runs = (text.length ? text : [task.text]).map((run) => jsString(run.slice(0, 60)));
+    return `[${jsString(ensureMd(task.note))}, [${runs.join(", ")}]]`;
+  });
+  const list = `const picks = [${picks.join(", ")}]`;
+  const match =
+    "picks.findIndex(([p, runs]) => task.file.path === p && runs.every((r) => task.description.includes(r)))";
+  return [
+    "```tasks",
+    "not done",
+    `filter by function ${list}; return ${match} !== -1;`,
+    `sort by function ${list}; return ${match};`,
+    "```",
+  ].join("\n");
+}
+
+function rationaleText(ranking: RankedTask): string | null {
+  const parts: string[] = [];
+  if (ranking.reason) parts.push(ranking.reason);
+  if (ranking.advances) parts.push(`Advances: ${ranking.advances}`);
+  return parts.length ? parts.join(" — ") : null;
+}
+
+// Footnote labels must be unique within the note, so each run gets its own prefix
+function footnotePrefix(now: Date): string {
+  return `atp-${now.getTime().toString(36)}`;
+}
+
+function summaryCallout(entries: RankedEntry[]): string {
+  const summary = entries.map(({ task, ranking }, i) => {
+    const why = rationaleText(ranking) ?? "No rationale given.";
+    return `> ${i + 1}. **${task.description || task.text}** — ${why}`;
+  });
+  return `> [!info]- Why these tasks\n${summary.join("\n")}`;
+}
+
+// Shown when planning against a budget, or when the tasks carry their own estimates
+function timeSummary(entries: RankedEntry[], budgetMinutes: number | null): string | null {
+  const estimates = entries.map(({ task, ranking }) => taskEstimate(task, ranking));
+  if (!entries.length || (!budgetMinutes && !estimates.some((e) => e.source === "task"))) {
+    return null;
+  }
+
+  const total = estimates.reduce((sum, e) => sum + e.minutes, 0);
+  const title = budgetMinutes
+    ? `Estimated time: ${formatDuration(total)} of ${formatDuration(budgetMinutes)}`
+    : `Estimated time: ${formatDuration(total)}`;
+  const lines = entries.map(({ task }, i) => {
+    const estimate = estimates[i];
+    if (!estimate) return "";
+    const time = formatDuration(estimate.minutes);
+    const label =
+      estimate.source === "task" ? time
+        : estimate.source === "model" ? `~${time} (estimated)`
+        : `~${time} (assumed)`;
+    return `> - ${task.description || task.text} — ${label}`;
+  });
+  return `> [!abstract] ${title}\n${lines.join("\n")}`;
+}
+
+// Blocking chains for the picked tasks that sit in one
+function dependencySummary(entries: RankedEntry[], dependencies: DependencyGraph | null): string | null {
+  if (!dependencies) return null;
+  const lines = entries.flatMap(({ task }) => {
+    const description = describeDependencies(dependencies, task);
+    return description ? [`> - **${task.description || task.text}** ${description}`] : [];
+  });
+  return lines.length ? `> [!note] Dependencies\n${lines.join("\n")}` : null;
+}
+
+export function renderRankedTasks(
+  entries: RankedEntry[],
+  options: RenderOptions,
+  now: Date = new Date()
+): string {
+  const sections = [
+    renderTaskList(entries, options, now),
+    dependencySummary(entries, options.dependencies ?? null),
+    timeSummary(entries, options.budgetMinutes ?? null),
+  ].filter((section): section is string => section != null);
+  return sections.map((section) => section.replace(/\n$/, "")).join("\n\n") + "\n";
+}
+
+function renderTaskList(
+  entries: RankedEntry[],
+  options: RenderOptions,
+  now: Date
+): string {
+  const { output } = options;
+  const hasRationale = entries.some(({ ranking }) => rationaleText(ranking));
+  // A query block can't carry per-task notes, so those formats become a summary
+  const rationale =
+    output === "query" && options.rationale !== "none" ? "summary" : options.rationale;
+
+  const lines =
+    output === "query"
+      ? [tasksQuery(entries)]
+      : entries.map(({ task }) => taskLine(task, output));
+
+  if (rationale === "none" || !hasRationale) {
+    return lines.join("\n") + "\n";
+  }
+
+  if (rationale === "callout") {
+    return entries
+      .map(({ task, ranking }) => {
+        const why = rationaleText(ranking);
+        const line = taskLine(task, output);
+        return why ? `${line}\n> [!info]- Why\n> ${why}` : line;
+      })
+      .join("\n\n") + "\n";
+  }
+
+  if (rationale === "footnote") {
+    const prefix = footnotePrefix(now);
+    const withRefs: string[] = [];
+    const notes: string[] = [];
+    entries.forEach(({ task, ranking }, i) => {
+      const why = rationaleText(ranking);
+      if (!why) {
+        withRefs.push(taskLine(task, output));
+        return;
+      }
+      const label = `[^${prefix}-${i + 1}]`;
+      withRefs.push(`${taskLine(task, output)} ${label}`);
+      notes.push(`${label}: ${why}`);
+    });
+    return `${withRefs.join("\n")}\n\n${notes.join("\n")}\n`;
+  }
+
+  return `${lines.join("\n")}\n\n${summaryCallout(entries)}\n`;
+}
@@ -1,6 +1,19 @@
-import { App, TFile } from "obsidian";
+import { PrioritySources } from "./profiles";
+import { ensureMd } from "./utils";
+import { VaultAdapter } from "./vault";
 
-function normalizeHeadingText(text: string): string {
+export interface PrioritySection {
+  source: string; // human-readable origin, e.g. "Weekly/2026-W42.md › Goals"
+  text: string;
+}
+
+export interface ResolvedPriorities {
+  text: string;          // what is sent for ranking
+  sections: PrioritySection[];
+  missing: string[];     // configured sources that produced nothing
+}
+
+export function normalizeHeadingText(text: string): string {
   return (text ?? "")
     .replace(/^[\p{Emoji_Presentation}\p{Extended_Pictographic}\p{Symbol}\s]+/gu, "")
     .replace(/\(.+?\)\s*$/g, "")
@@ -16,13 +29,9 @@ function isHorizontalRule(line: string): boolean {
   return /^\s*([-*_])\1{2,}\s*$/.test(line ?? "");
 }
 
-export async function extractPrioritiesFromFile(
-  app: App,
-  file: TFile,
-  desiredHeading: string
-): Promise<string> {
-  const content = (await app.vault.read(file)) ?? "";
-  const lines = content.split(/\r?\n/);
+/** Text under `desiredHeading` up to the next heading of the same or higher level. */
+export function extractHeadingSection(content: string, desiredHeading: string): string {
+  const lines = (content ?? "").split(/\r?\n/);
 
   let start = -1;
   let startDepth = 0;
@@ -69,3 +78,80 @@ export async function extractPrioritiesFromFile(
 
   return buffer.join("\n");
 }
+
+// Lists become bullet lists; anything else is shown as-is
+function frontmatterText(value: unknown): string {
+  if (value == null) return "";
+  if (Array.isArray(value)) {
+    return value.filter((v) => v != null && String(v).trim()).map((v) => `- ${String(v)}`).join("\n");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).trim();
+}
+
+/** Expands a periodic note path template (moment format, e.g. `Weekly/gggg-[W]ww`) for `now`. */
+export function resolvePeriodicNotePath(vault: VaultAdapter, template: string, now: Date = new Date()): string {
+  return ensureMd(vault.formatDate(now, template.trim()));
+}
+
+/**
+ * Reads priorities from every configured source: headings and frontmatter
+ * fields of the active note, a fixed priorities note and the current
+ * periodic notes. With a single section its text is used as-is; several
+ * sections are joined under a line naming where each came from.
+ */
+export async function resolvePriorities(
+  vault: VaultAdapter,
+  sources: PrioritySources,
+  activePath: string | null,
+  now: Date = new Date()
+): Promise<ResolvedPriorities> {
+  const notes: { label: string; path: string | null }[] = [];
+  if (sources.activeNote) notes.push({ label: "Active note", path: activePath });
+  if (sources.notePath.trim()) {
+    notes.push({ label: "Priorities note", path: ensureMd(sources.notePath.trim()) });
+  }
+  for (const template of sources.periodicNotes) {
+    notes.push({ label: `Periodic note (${template})`, path: resolvePeriodicNotePath(vault, template, now) });
+  }
+
+  const sections: PrioritySection[] = [];
+  const missing: string[] = [];
+  const seen = new Set<string>();
+
+  for (const note of notes) {
+    // The active note can also be the priorities or periodic note
+    if (note.path && seen.has(note.path)) continue;
+    const content = note.path ? await vault.read(note.path) : null;
+    if (!note.path || content == null) {
+      missing.push(note.path ? `${note.label}: ${note.path} not found` : `${note.label}: no note open`);
+      continue;
+    }
+    seen.add(note.path);
+
+    for (const heading of sources.headings) {
+      const text = extractHeadingSection(content, heading);
+      if (text.trim()) {
+        sections.push({ source: `${note.path} › ${heading}`, text });
+      } else {
+        missing.push(`${note.path}: no heading “${heading}”`);
+      }
+    }
+
+    const frontmatter = sources.frontmatterFields.length ? await vault.frontmatter(note.path) : null;
+    for (const field of sources.frontmatterFields) {
+      const text = frontmatterText(frontmatter?.[field]);
+      if (text) {
+        sections.push({ source: `${note.path} › ${field} (frontmatter)`, text });
+      } else if (frontmatter?.[field] === undefined) {
+        missing.push(`${note.path}: no frontmatter field “${field}”`);
+      }
+    }
+  }
+
+  const text =
+    sections.length === 1
+      ? sections[0]?.text ?? ""
+      : sections.map((s) => `From ${s.source}:\n${s.text}`).join("\n\n");
+  return { text, sections, missing };
+}
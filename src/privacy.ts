@@ -0,0 +1,156 @@
+import { TaskItem } from "./types";
+import { hasTag, normalizeTag } from "./filters";
+
+export interface PrivacySettings {
+  excludeTags: string[];     // tasks with any of these tags are never sent to the model
+  redactPatterns: string[];  // regular expressions masked in everything sent
+  anonymizeNotes: boolean;   // send note names, links and task ids as opaque aliases
+}
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  excludeTags: ["#private"],
+  redactPatterns: [],
+  anonymizeNotes: false,
+};
+
+/**
+ * Masks what goes to the model and maps the reply back. Aliases are handed
+ * out on first use and kept for the whole run, so the same value always gets
+ * the same placeholder across batches and rounds.
+ */
+export interface Redactor {
+  isExcluded(task: Pick<TaskItem, "tags" | "parentTags">): boolean; // its own tags or any parent's
+  text(value: string): string;
+  note(title: string): string;
+  taskId(id: string): string;
+  restoreId(id: string): string;
+  restore(text: string): string;
+  opaqueIds: boolean;    // task ids are replaced, so note names in block IDs don't leak
+  anonymizesNotes: boolean;
+  masked(): number;      // distinct values replaced by a pattern so far
+  notes(): number;       // notes given an alias so far
+}
+
+/** Whether tags (a task's own plus its parents') include one that is never sent. */
+export function hasPrivateTag(privacy: PrivacySettings, tags: string[]): boolean {
+  const excludeTags = privacy.excludeTags.filter((t) => t.trim()).map(normalizeTag);
+  return excludeTags.length > 0 && hasTag({ tags }, excludeTags);
+}
+
+const PATTERN_WITH_FLAGS = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Compiles one regular expression per non-empty line. `/…/i` style lines
+ * keep their flags. Returns the lines that don't compile instead of throwing.
+ */
+export function compileRedactPatterns(patterns: string[]): { patterns: RegExp[]; invalid: string[] } {
+  const compiled: RegExp[] = [];
+  const invalid: string[] = [];
+  for (const raw of patterns) {
+    const line = raw.trim();
+    if (!line) continue;
+    const m = line.match(PATTERN_WITH_FLAGS);
+    try {
+      const flags = new Set([...(m?.[2] ?? ""), "g"]);
+      compiled.push(new RegExp(m ? (m[1] ?? "") : line, [...flags].join("")));
+    } catch {
+      invalid.push(line);
+    }
+  }
+  return { patterns: compiled, invalid };
+}
+
+// `[[Folder/Note#Heading|label]]` → "Note"
+const WIKILINK = /\[\[([^\]|#]*)(?:#[^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const PLACEHOLDER = /\[redacted-(\d+)\]|\bnote-(\d+)\b/g;
+
+function linkTitle(target: string): string {
+  return (target.split("/").pop() ?? target).replace(/\.md$/i, "").trim();
+}
+
+/**
+ * Builds the redactor for one ranking run. Throws if a pattern doesn't
+ * compile: sending text that was meant to be masked is worse than not
+ * ranking.
+ */
+export function createRedactor(privacy: PrivacySettings): Redactor {
+  const { patterns, invalid } = compileRedactPatterns(privacy.redactPatterns);
+  if (invalid.length) {
+    throw new Error(`Redaction pattern “${invalid[0]}” is not a valid regular expression.`);
+  }
+  const anonymizesNotes = privacy.anonymizeNotes;
+  const opaqueIds = anonymizesNotes || patterns.length > 0;
+
+  const maskedValues = new Map<string, string>(); // original → placeholder
+  const maskedOriginals: string[] = [];
+  const noteAliases = new Map<string, string>();  // lower-cased title → alias
+  const noteTitles: string[] = [];
+  const taskIds = new Map<string, string>();
+  const originalIds = new Map<string, string>();
+
+  const mask = (value: string): string => {
+    let placeholder = maskedValues.get(value);
+    if (!placeholder) {
+      maskedOriginals.push(value);
+      placeholder = `[redacted-${maskedOriginals.length}]`;
+      maskedValues.set(value, placeholder);
+    }
+    return placeholder;
+  };
+
+  const maskPatterns = (value: string): string => {
+    let result = value;
+    for (const pattern of patterns) {
+      result = result.replace(pattern, (match) => (match ? mask(match) : match));
+    }
+    return result;
+  };
+
+  // Aliased titles give nothing away; plain ones are masked like any other text
+  const note = (title: string): string => {
+    if (!anonymizesNotes) return maskPatterns(title);
+    const key = title.toLowerCase();
+    let alias = noteAliases.get(key);
+    if (!alias) {
+      noteTitles.push(title);
+      alias = `note-${noteTitles.length}`;
+      noteAliases.set(key, alias);
+    }
+    return alias;
+  };
+
+  const text = (value: string): string => {
+    let result = value;
+    if (anonymizesNotes) {
+      result = result.replace(WIKILINK, (_, target: string) => `[[${note(linkTitle(target))}]]`);
+    }
+    return maskPatterns(result);
+  };
+
+  return {
+    // Subtasks of a private task are private too, tagged or not
+    isExcluded: (task) => hasPrivateTag(privacy, [...task.tags, ...task.parentTags.flat()]),
+    text,
+    note,
+    taskId: (id) => {
+      if (!opaqueIds) return id;
+      let alias = taskIds.get(id);
+      if (!alias) {
+        alias = `task-${taskIds.size + 1}`;
+        taskIds.set(id, alias);
+        originalIds.set(alias, id);
+      }
+      return alias;
+    },
+    restoreId: (id) => originalIds.get(id) ?? id,
+    restore: (value) =>
+      value.replace(PLACEHOLDER, (match, masked?: string, noteIndex?: string) => {
+        if (masked) return maskedOriginals[Number(masked) - 1] ?? match;
+        return anonymizesNotes ? noteTitles[Number(noteIndex) - 1] ?? match : match;
+      }),
+    opaqueIds,
+    anonymizesNotes,
+    masked: () => maskedOriginals.length,
+    notes: () => noteTitles.length,
+  };
+}
@@ -0,0 +1,135 @@
+import { OutputFormat } from "./output";
+import { hashText } from "./utils";
+
+export const DEFAULT_RANKING_PROMPT = [
+  "You are my executive assistant. Rank my tasks against the supplied priorities.",
+  "",
+  "Constraints:",
+  "- Return STRICT JSON: { \"ranked_tasks\": [{ \"id\": \"id1\", \"reason\": \"...\", \"advances\": \"...\", \"estimate_minutes\": 30 }, ...] } in ranked order.",
+  "- \"reason\" is one short sentence on why the task is worth doing now; \"advances\" names the stated priority it moves forward (or null).",
+  "- \"estimate_minutes\" is the task's estimate if it has one, otherwise your best guess of how long it takes.",
+  "- When time_budget_minutes is given, rank the most valuable tasks first; they are taken in your order until the budget is full.",
+  "- Only include ids that exist in the provided tasks array.",
+  "- Prefer tasks that advance the stated priorities.",
+  "- Each task has a description plus optional metadata: status (\"in-progress\" when already started), created, due, scheduled, start, priority (highest..lowest), recurrence, tags, fields.",
+  "- \"note\" (and \"note_aliases\") name the note a task is in, \"context\" is its heading path, and \"parent_tasks\" are the tasks it is a step of (outermost first). Read a short subtask in the light of its parents.",
+  "- \"subtasks\" counts the steps nested under a task ({ total, open }); a task with open subtasks is usually done by doing those.",
+  "- Treat approaching or overdue due dates as urgent; deprioritize tasks whose start or scheduled date is still in the future.",
+  "- \"blocked_by\" lists open tasks a task waits on (nearest first); avoid blocked tasks unless nothing else advances the priorities.",
+  "- \"unblocks\" counts the open tasks waiting on a task; prefer tasks that unblock others.",
+  "- Balance urgency (older created dates), unblockers, external visibility / consequence of delay.",
+  "- Avoid picking near-duplicates unless they are different concrete steps.",
+  "",
+  "Output must be valid JSON only. No commentary."
+].join("\n");
+
+// Defaults shipped by released versions, by `hashText` of the trimmed text.
+// Saved copies of these were never customized, so they get the current
+// default and its newer fields. Add the outgoing hash on each release that
+// changes DEFAULT_RANKING_PROMPT.
+const PREVIOUS_DEFAULT_PROMPTS = new Set([
+  "5b4e16d1", // 1.0.x: asks for `ranked_task_ids`
+]);
+
+function isPreviousDefaultPrompt(prompt: unknown): boolean {
+  return typeof prompt === "string" && PREVIOUS_DEFAULT_PROMPTS.has(hashText(prompt.replace(/\r\n/g, "\n").trim()));
+}
+
+export interface PrioritySources {
+  activeNote: boolean;         // read the note the command runs in
+  notePath: string;            // fixed priorities note; empty = none
+  periodicNotes: string[];     // path templates in moment format, e.g. "Weekly/gggg-[W]ww"
+  headings: string[];          // headings read from each source note
+  frontmatterFields: string[]; // frontmatter fields read from each source note
+}
+
+export interface RankingProfile {
+  id: string;                 // stable; used in command IDs and managed block markers
+  name: string;
+  folders: string[];          // whitelist (prefix match) for task paths
+  priorities: PrioritySources;
+  model: string;              // empty = the global model
+  rankingPrompt: string;
+  defaultCount: number;
+  outputFormat: OutputFormat;
+}
+
+export const DEFAULT_PROFILE: RankingProfile = {
+  id: "default",
+  name: "Default",
+  folders: ["Daily Notes", "1 Projects"],
+  priorities: {
+    activeNote: true,
+    notePath: "",
+    periodicNotes: [],
+    headings: ["🎯 Next Week's Priorities"],
+    frontmatterFields: [],
+  },
+  model: "",
+  rankingPrompt: DEFAULT_RANKING_PROMPT,
+  defaultCount: 5,
+  outputFormat: "embed",
+};
+
+export function createProfileId(existing: RankingProfile[]): string {
+  const ids = new Set(existing.map((p) => p.id));
+  while (true) {
+    const candidate = `p-${Math.random().toString(36).slice(2, 8)}`;
+    if (!ids.has(candidate)) return candidate;
+  }
+}
+
+export function duplicateProfile(
+  profile: RankingProfile,
+  existing: RankingProfile[]
+): RankingProfile {
+  return {
+    ...profile,
+    folders: [...profile.folders],
+    priorities: clonePrioritySources(profile.priorities),
+    id: createProfileId(existing),
+    name: `${profile.name} (copy)`,
+  };
+}
+
+export function clonePrioritySources(sources: PrioritySources): PrioritySources {
+  return {
+    ...sources,
+    periodicNotes: [...sources.periodicNotes],
+    headings: [...sources.headings],
+    frontmatterFields: [...sources.frontmatterFields],
+  };
+}
+
+export function normalizeProfile(raw: any): RankingProfile {
+  const { prioritiesHeading, ...rest } = raw ?? {};
+  const profile: RankingProfile = { ...DEFAULT_PROFILE, ...rest };
+  profile.folders = Array.isArray(profile.folders) ? [...profile.folders] : [];
+  // Profiles used to read a single heading from the active note
+  const legacy = typeof prioritiesHeading === "string" ? { headings: [prioritiesHeading] } : {};
+  const priorities = { ...DEFAULT_PROFILE.priorities, ...legacy, ...(rest.priorities ?? {}) };
+  profile.priorities = clonePrioritySources({
+    ...priorities,
+    periodicNotes: Array.isArray(priorities.periodicNotes) ? priorities.periodicNotes : [],
+    headings: Array.isArray(priorities.headings) ? priorities.headings : [],
+    frontmatterFields: Array.isArray(priorities.frontmatterFields) ? priorities.frontmatterFields : [],
+  });
+  if (isPreviousDefaultPrompt(profile.rankingPrompt)) profile.rankingPrompt = DEFAULT_RANKING_PROMPT;
+  const count = Math.floor(Number(profile.defaultCount));
+  profile.defaultCount = Number.isFinite(count) && count >= 1 ? count : DEFAULT_PROFILE.defaultCount;
+  return profile;
+}
+
+// Managed blocks written before profiles existed say "default"; names are
+// accepted too so hand-written markers work.
+export function findProfile(
+  profiles: RankingProfile[],
+  idOrName: string | null | undefined
+): RankingProfile | null {
+  if (!idOrName) return null;
+  return (
+    profiles.find((p) => p.id === idOrName) ??
+    profiles.find((p) => p.name.toLowerCase() === idOrName.toLowerCase()) ??
+    null
+  );
+}
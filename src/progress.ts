@@ -0,0 +1,54 @@
+import { Notice } from "obsidian";
+
+/**
+ * A single notice that stays up while a ranking runs, updated in place,
+ * with a Cancel button that aborts `signal`.
+ */
+export class ProgressNotice {
+  private notice: Notice;
+  private controller = new AbortController();
+  private closed = false;
+
+  constructor(message: string) {
+    this.notice = new Notice(this.render(message), 0);
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  update(message: string): void {
+    if (this.closed || this.cancelled) return;
+    this.notice.setMessage(this.render(message));
+  }
+
+  cancel(): void {
+    this.controller.abort();
+    this.notice.setMessage("Cancelling…");
+  }
+
+  // Hides the progress notice; `message` is shown as a normal notice
+  finish(message?: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.notice.hide();
+    if (message) new Notice(message);
+  }
+
+  private render(message: string): DocumentFragment {
+    const fragment = document.createDocumentFragment();
+    const body = fragment.createDiv({ cls: "ai-task-picker-progress" });
+    body.createSpan({ text: message });
+    const button = body.createEl("button", { text: "Cancel" });
+    button.addEventListener("click", (e) => {
+      // Clicking a notice dismisses it; keep it up until the run stops
+      e.stopPropagation();
+      this.cancel();
+    });
+    return fragment;
+  }
+}
@@ -0,0 +1,395 @@
+import { AiTaskPickerSettings, LlmProviderKind } from "./settings";
+import { warn } from "./logger";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// A JSON schema the reply must follow, for providers with structured output
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  schema?: ResponseSchema;
+  maxOutputTokens?: number;
+  plainJson?: boolean; // ask for plain JSON mode even with a schema, for models without structured output
+}
+
+export interface ChatOptions {
+  model?: string;       // overrides the configured model
+  schema?: ResponseSchema;
+  maxOutputTokens?: number; // room for the reply, for providers that require a cap
+  signal?: AbortSignal; // aborts the request and any pending retry
+}
+
+// Token counts as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  usage: TokenUsage | null; // null when the provider didn't report it
+}
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  headers: Record<string, string>;
+}
+
+export interface HttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface LlmProvider {
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  buildRequest(config: ProviderConfig, request: ChatRequest): HttpRequest;
+  parseResponse(json: any): ChatResponse;
+}
+
+// Appends a path to a base URL while keeping any query string in place
+// (Azure OpenAI deployments carry `?api-version=...` on the base URL).
+function joinUrl(baseUrl: string, path: string): string {
+  const [base = "", query] = baseUrl.split("?", 2);
+  const joined = base.replace(/\/+$/, "") + path;
+  return query ? `${joined}?${query}` : joined;
+}
+
+function bearer(apiKey: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+function tokenUsage(prompt: unknown, completion: unknown): TokenUsage | null {
+  if (prompt == null && completion == null) return null;
+  return { promptTokens: Number(prompt) || 0, completionTokens: Number(completion) || 0 };
+}
+
+function parseOpenAIResponse(json: any): ChatResponse {
+  return {
+    content: json?.choices?.[0]?.message?.content ?? "",
+    usage: tokenUsage(json?.usage?.prompt_tokens, json?.usage?.completion_tokens),
+  };
+}
+
+const openai: LlmProvider = {
+  label: "OpenAI",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  defaultModel: "gpt-4o-mini",
+  requiresApiKey: true,
+  buildRequest(config, request) {
+    return {
+      url: joinUrl(config.baseUrl, "/chat/completions"),
+      headers: { ...bearer(config.apiKey), ...config.headers },
+      body: {
+        model: request.model,
+        response_format: request.schema && !request.plainJson
+          ? {
+              type: "json_schema",
+              json_schema: { name: request.schema.name, strict: true, schema: request.schema.schema },
+            }
+          : { type: "json_object" },
+        messages: request.messages,
+      },
+    };
+  },
+  parseResponse: parseOpenAIResponse,
+};
+
+const openaiCompatible: LlmProvider = {
+  label: "OpenAI-compatible",
+  defaultBaseUrl: "http://localhost:8080/v1",
+  defaultModel: "gpt-4o-mini",
+  requiresApiKey: false,
+  buildRequest(config, request) {
+    // Many gateways and llama.cpp builds reject `response_format`, so the
+    // JSON-only instruction in the system prompt has to carry the contract.
+    return {
+      url: joinUrl(config.baseUrl, "/chat/completions"),
+      headers: { ...bearer(config.apiKey), ...config.headers },
+      body: {
+        model: request.model,
+        messages: request.messages,
+      },
+    };
+  },
+  parseResponse: parseOpenAIResponse,
+};
+
+const ollama: LlmProvider = {
+  label: "Ollama",
+  defaultBaseUrl: "http://localhost:11434",
+  defaultModel: "llama3.1",
+  requiresApiKey: false,
+  buildRequest(config, request) {
+    return {
+      url: joinUrl(config.baseUrl, "/api/chat"),
+      headers: { ...bearer(config.apiKey), ...config.headers },
+      body: {
+        model: request.model,
+        messages: request.messages,
+        // Ollama 0.5+ constrains output to a schema passed as `format`
+        format: (!request.plainJson && request.schema?.schema) || "json",
+        stream: false,
+      },
+    };
+  },
+  parseResponse(json) {
+    return {
+      content: json?.message?.content ?? "",
+      usage: tokenUsage(json?.prompt_eval_count, json?.eval_count),
+    };
+  },
+};
+
+// Anthropic requires max_tokens; used when the caller doesn't size the reply
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+const anthropic: LlmProvider = {
+  label: "Anthropic",
+  defaultBaseUrl: "https://api.anthropic.com",
+  defaultModel: "claude-3-5-haiku-latest",
+  requiresApiKey: true,
+  buildRequest(config, request) {
+    const system = request.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    // Structured output goes through a forced tool call whose input is the reply
+    const tools = request.schema
+      ? {
+          tools: [{ name: request.schema.name, input_schema: request.schema.schema }],
+          tool_choice: { type: "tool", name: request.schema.name },
+        }
+      : {};
+    return {
+      url: joinUrl(config.baseUrl, "/v1/messages"),
+      headers: {
+        "x-api-key": config.apiKey,
+        "anthropic-version": "2023-06-01",
+        "anthropic-dangerous-direct-browser-access": "true",
+        ...config.headers,
+      },
+      body: {
+        model: request.model,
+        max_tokens: request.maxOutputTokens ?? ANTHROPIC_MAX_TOKENS,
+        system,
+        messages: request.messages.filter((m) => m.role !== "system"),
+        ...tools,
+      },
+    };
+  },
+  parseResponse(json) {
+    const blocks: any[] = Array.isArray(json?.content) ? json.content : [];
+    const usage = tokenUsage(json?.usage?.input_tokens, json?.usage?.output_tokens);
+    const toolUse = blocks.find((b) => b?.type === "tool_use");
+    if (toolUse) return { content: JSON.stringify(toolUse.input ?? {}), usage };
+    return {
+      content: blocks
+        .filter((b) => b?.type === "text")
+        .map((b) => String(b.text ?? ""))
+        .join(""),
+      usage,
+    };
+  },
+};
+
+export const PROVIDERS: Record<LlmProviderKind, LlmProvider> = {
+  openai,
+  "openai-compatible": openaiCompatible,
+  ollama,
+  anthropic,
+};
+
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of (text ?? "").split("\n")) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    const name = line.slice(0, idx).trim();
+    const value = line.slice(idx + 1).trim();
+    if (name) headers[name] = value;
+  }
+  return headers;
+}
+
+export function resolveProvider(settings: AiTaskPickerSettings): LlmProvider {
+  return PROVIDERS[settings.provider] ?? openai;
+}
+
+// A profile's model, else the configured model, else the provider's default
+export function resolveModel(settings: AiTaskPickerSettings, override?: string): string {
+  return override?.trim() || settings.model.trim() || resolveProvider(settings).defaultModel;
+}
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Provider, base URL and model combinations that rejected a response schema
+const PLAIN_JSON_ENDPOINTS = new Set<string>();
+
+// 429 and 5xx are worth retrying; other client errors will fail the same way again
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// `Retry-After` is either delay-seconds or an HTTP date
+function retryAfterMs(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function backoffMs(attempt: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempt + Math.random() * 250);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Cancelled."));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Cancelled."));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * One fetch with a timeout, body included: a server that sends headers and
+ * then stalls still times out, and can still be cancelled. The caller's
+ * signal and the timeout both abort the request; the error says which one
+ * it was.
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ response: Response; body: string }> {
+  if (signal?.aborted) throw new Error("Cancelled.");
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return { response, body: await response.text() };
+  } catch (e: unknown) {
+    if (signal?.aborted) throw new Error("Cancelled.");
+    if (timedOut) throw new Error(`Request timed out after ${Math.round(timeoutMs / 1000)}s.`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export async function sendChat(
+  settings: AiTaskPickerSettings,
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<ChatResponse> {
+  const provider = resolveProvider(settings);
+  const apiKey = settings.apiKey || "";
+  if (provider.requiresApiKey && !apiKey) {
+    throw new Error(`${provider.label} API key is not set.`);
+  }
+
+  const config: ProviderConfig = {
+    baseUrl: settings.baseUrl.trim() || provider.defaultBaseUrl,
+    apiKey,
+    headers: parseHeaderLines(settings.customHeaders),
+  };
+  const model = resolveModel(settings, options.model);
+  const endpoint = `${settings.provider} ${config.baseUrl} ${model}`;
+  const build = () =>
+    provider.buildRequest(config, {
+      model,
+      messages,
+      schema: options.schema,
+      maxOutputTokens: options.maxOutputTokens,
+      plainJson: PLAIN_JSON_ENDPOINTS.has(endpoint),
+    });
+  let request = build();
+  const timeoutMs = Math.max(1, settings.requestTimeoutSeconds) * 1000;
+  const maxRetries = Math.max(0, settings.maxRetries);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    let body: string;
+    try {
+      ({ response, body } = await fetchWithTimeout(
+        request.url,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...request.headers },
+          body: JSON.stringify(request.body),
+        },
+        timeoutMs,
+        options.signal
+      ));
+    } catch (e: unknown) {
+      // Timeouts and network failures are retried; cancellation is not
+      if (options.signal?.aborted || attempt >= maxRetries) throw e;
+      warn(`${provider.label} request failed, retrying:`, e);
+      await sleep(backoffMs(attempt), options.signal);
+      continue;
+    }
+
+    if (response.ok) {
+      let json: unknown = null;
+      try {
+        json = JSON.parse(body);
+      } catch {
+        // Reported as an empty reply by the caller's validation
+      }
+      return provider.parseResponse(json);
+    }
+
+    const errorText = body;
+    // Older models and Ollama before 0.5 reject schemas; fall back to plain
+    // JSON mode once and keep using it for this model
+    if (
+      response.status === 400 &&
+      options.schema &&
+      !PLAIN_JSON_ENDPOINTS.has(endpoint) &&
+      /format|schema/i.test(errorText)
+    ) {
+      warn(`${provider.label} rejected structured output for ${model}, using plain JSON mode:`, errorText);
+      PLAIN_JSON_ENDPOINTS.add(endpoint);
+      request = build();
+      attempt--;
+      continue;
+    }
+    if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+      throw new Error(errorText || `${provider.label} error ${response.status}`);
+    }
+    const delay = Math.min(
+      MAX_RETRY_DELAY_MS,
+      retryAfterMs(response.headers.get("retry-after")) ?? backoffMs(attempt)
+    );
+    warn(`${provider.label} returned ${response.status}, retrying in ${delay}ms`);
+    await sleep(delay, options.signal);
+  }
+}
@@ -0,0 +1,587 @@
+import { RankedTask, TaskItem } from "./types";
+import { BUDGET_CANDIDATES, fillTimeBudget } from "./timeBudget";
+import { AiTaskPickerSettings, DEFAULT_SETTINGS } from "./settings";
+import { DEFAULT_RANKING_PROMPT } from "./profiles";
+import { ChatMessage, ResponseSchema, TokenUsage, sendChat } from "./providers";
+import { normalizeBlockId } from "./utils";
+import { rankTasksHeuristically } from "./heuristicRanker";
+import { DependencyGraph, blockingChain, unblockedBy } from "./dependencies";
+import { Redactor, createRedactor } from "./privacy";
+import { warn } from "./logger";
+
+export interface RankRequest {
+  prioritiesText: string;
+  tasks: TaskItem[];
+  maxTasks: number;
+  budgetMinutes?: number | null; // fill this much time instead of taking maxTasks
+  rankingPrompt: string;       // the profile's system prompt
+  model?: string;              // the profile's model; empty = global model
+  feedback?: string[]; // recent user corrections, shown to the model as examples
+  dependencies?: DependencyGraph | null; // ⛔/🆔 links between open tasks
+  onUsage?: (usage: TokenUsage | null) => void; // once per model reply, retries included
+  signal?: AbortSignal;
+}
+
+// Strict-mode schemas need every property listed as required
+const RANKING_SCHEMA: ResponseSchema = {
+  name: "ranked_tasks",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["ranked_tasks"],
+    properties: {
+      ranked_tasks: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["id", "reason", "advances", "estimate_minutes"],
+          properties: {
+            id: { type: "string" },
+            reason: { type: "string" },
+            advances: { type: ["string", "null"] },
+            estimate_minutes: { type: ["number", "null"] },
+          },
+        },
+      },
+    },
+  },
+};
+
+export type PayloadTask = Record<string, unknown> & { id: string };
+
+// The model sees the cleaned description and structured metadata, never the
+// raw line, so dates and priorities are not inferred from emoji. Every piece
+// of free text goes through the redactor.
+export function toPayloadTask(task: TaskItem, dependencies: DependencyGraph | null, redactor: Redactor): PayloadTask {
+  const payload: PayloadTask = {
+    id: redactor.taskId(task.id),
+    description: redactor.text(task.description),
+    note: redactor.note(task.noteTitle),
+  };
+  if (task.status === "in-progress") payload.status = task.status;
+  // Aliases would name the note right next to its anonymized title
+  if (task.noteAliases.length && !redactor.anonymizesNotes) {
+    payload.note_aliases = task.noteAliases.map(redactor.text);
+  }
+  if (task.headingPath.length) payload.context = redactor.text(task.headingPath.join(" › "));
+  // Tasks under a private parent are held back, so every parent here can be sent
+  if (task.parents.length) payload.parent_tasks = task.parents.map(redactor.text);
+  if (task.subtasks.total) payload.subtasks = task.subtasks;
+  const metadata: Record<string, unknown> = {
+    created: task.created,
+    due: task.due,
+    scheduled: task.scheduled,
+    start: task.start,
+    priority: task.priority,
+    recurrence: task.recurrence ? redactor.text(task.recurrence) : null,
+  };
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value != null) payload[key] = value;
+  }
+  if (task.estimate != null) payload.estimate_minutes = task.estimate;
+  if (task.tags.length) payload.tags = task.tags.map(redactor.text);
+  if (Object.keys(task.fields).length) {
+    payload.fields = Object.fromEntries(
+      Object.entries(task.fields).map(([key, value]) => [key, redactor.text(value)])
+    );
+  }
+  if (dependencies) {
+    const blockers = blockingChain(dependencies, task);
+    if (blockers.length) {
+      payload.blocked_by = blockers.map((t) =>
+        redactor.isExcluded(t) ? "(a private task)" : redactor.text(t.description || t.text)
+      );
+    }
+    const unblocks = unblockedBy(dependencies, task).length;
+    if (unblocks) payload.unblocks = unblocks;
+  }
+  return payload;
+}
+
+const MAX_RATIONALE_LENGTH = 240;
+
+// Rationale ends up inside callouts and footnotes, so keep it to one short line
+function cleanRationale(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const text = value.replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return text.length > MAX_RATIONALE_LENGTH
+    ? `${text.slice(0, MAX_RATIONALE_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+function cleanEstimate(value: unknown): number | null {
+  const n = Number(value);
+  return value != null && Number.isFinite(n) && n > 0 ? Math.round(n) : null;
+}
+
+type ParsedReply = { entries: RankedTask[]; problem: null } | { entries: null; problem: string };
+
+// Accepts `{ ranked_tasks: [{ id, reason, advances }] }` and, for custom
+// prompts written against 1.0.x, the older `{ ranked_task_ids: [...] }`.
+function parseRankedTasks(content: string): ParsedReply {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(
+      content.replace(/^\s*```(?:json)?/i, "").replace(/```\s*$/i, "").trim()
+    );
+  } catch {
+    return { entries: null, problem: "the reply was not valid JSON" };
+  }
+
+  if (Array.isArray(parsed?.ranked_tasks)) {
+    const entries = parsed.ranked_tasks.flatMap((entry: any): RankedTask[] => {
+      if (entry == null) return [];
+      if (typeof entry !== "object") {
+        return [{ id: String(entry), reason: null, advances: null, estimateMinutes: null }];
+      }
+      if (entry.id == null) return [];
+      return [{
+        id: String(entry.id),
+        reason: cleanRationale(entry.reason),
+        advances: cleanRationale(entry.advances),
+        estimateMinutes: cleanEstimate(entry.estimate_minutes),
+      }];
+    });
+    return { entries, problem: null };
+  }
+
+  if (Array.isArray(parsed?.ranked_task_ids)) {
+    const entries = parsed.ranked_task_ids.map((id: unknown) => ({
+      id: String(id),
+      reason: null,
+      advances: null,
+      estimateMinutes: null,
+    }));
+    return { entries, problem: null };
+  }
+  return { entries: null, problem: "the reply had no \"ranked_tasks\" array" };
+}
+
+interface RankingValidation {
+  ranked: RankedTask[];
+  problems: string[];     // non-empty when the reply is unusable
+  unknownIds: string[];
+  duplicateIds: string[];
+}
+
+// Drops ids the model invented or repeated so shortlists stay clean
+function validateRanking(content: string, known: Set<string>): RankingValidation {
+  const parsed = parseRankedTasks(content);
+  if (!parsed.entries) {
+    return { ranked: [], problems: [parsed.problem], unknownIds: [], duplicateIds: [] };
+  }
+
+  const seen = new Set<string>();
+  const ranked: RankedTask[] = [];
+  const unknownIds: string[] = [];
+  const duplicateIds: string[] = [];
+  for (const entry of parsed.entries) {
+    const normalized = normalizeBlockId(entry.id);
+    if (!known.has(normalized)) {
+      unknownIds.push(normalized);
+    } else if (seen.has(normalized)) {
+      duplicateIds.push(normalized);
+    } else {
+      seen.add(normalized);
+      ranked.push({ ...entry, id: normalized });
+    }
+  }
+
+  const problems: string[] = [];
+  if (!parsed.entries.length) {
+    problems.push("\"ranked_tasks\" was empty");
+  } else if (!ranked.length) {
+    problems.push(`none of the returned ids exist in the tasks array (${unknownIds.slice(0, 5).join(", ")})`);
+  }
+  return { ranked, problems, unknownIds, duplicateIds };
+}
+
+function correctionPrompt(problems: string[]): string {
+  return [
+    `Your previous reply could not be used: ${problems.join("; ")}.`,
+    "Reply again with only valid JSON of the form { \"ranked_tasks\": [{ \"id\": \"...\", \"reason\": \"...\", \"advances\": \"...\" }] },",
+    "using only ids from the provided tasks array.",
+  ].join(" ");
+}
+
+// Rough chars-per-token heuristic; good enough to keep requests under budget
+export function estimateTokens(text: string): number {
+  return Math.ceil((text ?? "").length / 4);
+}
+
+// Output room for a reply of `count` entries with a reason and priority each,
+// so a long ranking isn't cut off mid-JSON. Capped at what current models allow.
+export function replyTokens(count: number, perEntry = 120): number {
+  return Math.min(8192, 512 + Math.max(1, count) * perEntry);
+}
+
+function splitIntoBatches(
+  tasks: PayloadTask[],
+  batchSize: number,
+  tokenBudget: number
+): PayloadTask[][] {
+  const batches: PayloadTask[][] = [];
+  let current: PayloadTask[] = [];
+  let currentTokens = 0;
+
+  for (const task of tasks) {
+    const tokens = estimateTokens(JSON.stringify(task));
+    if (current.length > 0 && (current.length >= batchSize || currentTokens + tokens > tokenBudget)) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(task);
+    currentTokens += tokens;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+function buildSystemPrompt(request: RankRequest): string {
+  const base = request.rankingPrompt || DEFAULT_RANKING_PROMPT;
+  const feedback = request.feedback ?? [];
+  if (!feedback.length) return base;
+  return [
+    base,
+    "",
+    "How the user corrected recent rankings (adapt to these habits):",
+    ...feedback.map((line) => `- ${line}`),
+  ].join("\n");
+}
+
+function batchMessages(request: RankRequest, tasks: PayloadTask[], maxTasks: number): ChatMessage[] {
+  const payload = {
+    priorities_text: request.prioritiesText ?? "",
+    tasks,
+    max_tasks: maxTasks,
+    ...(request.budgetMinutes ? { time_budget_minutes: request.budgetMinutes } : {}),
+  };
+  return [
+    { role: "system", content: buildSystemPrompt(request) },
+    { role: "user", content: JSON.stringify(payload) },
+  ];
+}
+
+interface RankingReply {
+  ranked: RankedTask[];
+  messages: ChatMessage[]; // the conversation so far, ending with the reply that was used
+}
+
+/**
+ * Sends a conversation that asks for a ranking. A reply that can't be used
+ * (not JSON, no list, no known ids) gets one corrective re-ask before the
+ * request fails; unknown and duplicate ids in an otherwise usable reply are
+ * dropped and reported.
+ */
+async function askForRanking(
+  settings: AiTaskPickerSettings,
+  request: RankRequest,
+  messages: ChatMessage[],
+  known: Set<string>,
+  maxTasks: number,
+  onProgress?: (message: string) => void
+): Promise<RankingReply> {
+  const options = {
+    model: request.model,
+    schema: RANKING_SCHEMA,
+    signal: request.signal,
+    maxOutputTokens: replyTokens(maxTasks),
+  };
+
+  const response = await sendChat(settings, messages, options);
+  request.onUsage?.(response.usage);
+  let conversation: ChatMessage[] = [...messages, { role: "assistant", content: response.content || "(empty)" }];
+  let result = validateRanking(response.content, known);
+  if (result.problems.length) {
+    warn("Unusable ranking reply, asking again:", result.problems, response.content);
+    onProgress?.("The model's reply was unusable. Asking again…");
+    conversation.push({ role: "user", content: correctionPrompt(result.problems) });
+    const retry = await sendChat(settings, conversation, options);
+    request.onUsage?.(retry.usage);
+    conversation = [...conversation, { role: "assistant", content: retry.content || "(empty)" }];
+    result = validateRanking(retry.content, known);
+    if (result.problems.length) {
+      throw new Error(`The model returned an unusable ranking: ${result.problems.join("; ")}.`);
+    }
+  }
+
+  const ignored: string[] = [];
+  if (result.unknownIds.length) ignored.push(`${result.unknownIds.length} unknown`);
+  if (result.duplicateIds.length) ignored.push(`${result.duplicateIds.length} duplicate`);
+  if (ignored.length) {
+    warn("Dropped task ids from ranking reply:", result.unknownIds, result.duplicateIds);
+    onProgress?.(`Ignored ${ignored.join(" and ")} task id(s) in the model's reply.`);
+  }
+  return { ranked: result.ranked.slice(0, maxTasks), messages: conversation };
+}
+
+function rankBatch(
+  settings: AiTaskPickerSettings,
+  request: RankRequest,
+  tasks: PayloadTask[],
+  maxTasks: number,
+  onProgress?: (message: string) => void
+): Promise<RankingReply> {
+  const messages = batchMessages(request, tasks, maxTasks);
+  return askForRanking(settings, request, messages, new Set(tasks.map((t) => t.id)), maxTasks, onProgress);
+}
+
+// Keep at least top-N per batch, but always shrink the batch so rounds converge
+function shortlistSize(batch: PayloadTask[], maxTasks: number): number {
+  return Math.max(1, Math.min(maxTasks, Math.ceil(batch.length / 2)));
+}
+
+interface ModelRun {
+  request: RankRequest;      // priorities and feedback as sent
+  candidates: PayloadTask[]; // redacted, excluded tasks left out
+  excluded: number;
+  redactor: Redactor;
+  batchSize: number;
+  tokenBudget: number;
+}
+
+// Everything that leaves the machine is built here, for ranking and for the preview alike
+function prepareModelRun(settings: AiTaskPickerSettings, request: RankRequest): ModelRun {
+  const redactor = createRedactor(settings.privacy ?? DEFAULT_SETTINGS.privacy);
+  const sent: RankRequest = {
+    ...request,
+    prioritiesText: redactor.text(request.prioritiesText ?? ""),
+    feedback: (request.feedback ?? []).map(redactor.text),
+  };
+  const tasks = request.tasks.filter((task) => !redactor.isExcluded(task));
+  const batchSize = Math.max(2, settings.batchSize || DEFAULT_SETTINGS.batchSize);
+  const budget = settings.tokenBudget || DEFAULT_SETTINGS.tokenBudget;
+  const overhead = estimateTokens(buildSystemPrompt(sent) + sent.prioritiesText);
+  const candidates = tasks.map((task) => toPayloadTask(task, request.dependencies ?? null, redactor));
+  // A budget that can't hold the prompt and one task would only ever produce single-task batches
+  const smallest = Math.min(...candidates.map((task) => estimateTokens(JSON.stringify(task))));
+  if (candidates.length && overhead + smallest > budget) {
+    throw new Error(
+      `The token budget (${budget}) is too small for the ranking prompt and priorities (about ${overhead} tokens) plus a task. Raise the token budget or shorten the priorities.`
+    );
+  }
+  return {
+    request: sent,
+    candidates,
+    excluded: request.tasks.length - tasks.length,
+    redactor,
+    batchSize,
+    tokenBudget: budget - overhead,
+  };
+}
+
+// Maps opaque ids and placeholders in the reply back to the real values
+function restoreRanking(ranked: RankedTask[], redactor: Redactor): RankedTask[] {
+  return ranked.map((entry) => ({
+    ...entry,
+    id: redactor.restoreId(entry.id),
+    reason: entry.reason && redactor.restore(entry.reason),
+    advances: entry.advances && redactor.restore(entry.advances),
+  }));
+}
+
+/**
+ * A finished model ranking that can be continued with follow-up
+ * instructions. Opaque to callers; pass it back to `refineRanking`.
+ */
+export interface RankingConversation {
+  request: RankRequest;   // as sent: redacted priorities, the model, the count asked for
+  messages: ChatMessage[]; // the final round, ending with the model's latest reply
+  known: Set<string>;      // payload ids of the final round's candidates
+  redactor: Redactor;
+  tasks: TaskItem[];       // the original candidates, for time budgets
+  budgetMinutes: number | null;
+}
+
+export interface RankingResult {
+  ranked: RankedTask[];
+  conversation: RankingConversation | null; // null when ranked offline
+}
+
+/**
+ * Ranks tasks against the priorities text. When the candidate set exceeds
+ * the configured batch size or token budget, tasks are ranked in batches and
+ * the shortlists are merged over further rounds until a single final round
+ * fits, so the top-N is stable regardless of vault size. The final round's
+ * conversation is returned for refinement.
+ */
+async function rankTasksWithModel(
+  settings: AiTaskPickerSettings,
+  request: RankRequest,
+  onProgress?: (message: string) => void
+): Promise<RankingResult> {
+  const { maxTasks } = request;
+  const run = prepareModelRun(settings, request);
+  const { batchSize, tokenBudget, redactor } = run;
+  if (run.excluded) onProgress?.(`Holding back ${run.excluded} private task(s)…`);
+
+  let candidates = run.candidates;
+  let round = 1;
+
+  while (true) {
+    const batches = splitIntoBatches(candidates, batchSize, tokenBudget);
+    // Single-task batches (oversized tasks) can't shrink, so the shortlist is ranked as it stands
+    const final = batches.length <= 1 || batches.every((batch) => batch.length === 1);
+    if (final) {
+      if (round > 1) onProgress?.(`Final round: ranking ${candidates.length} shortlisted tasks…`);
+      if (!candidates.length) return { ranked: [], conversation: null };
+      const reply = await rankBatch(settings, run.request, candidates, maxTasks, onProgress);
+      return {
+        ranked: restoreRanking(reply.ranked, redactor),
+        conversation: {
+          request: run.request,
+          messages: reply.messages,
+          known: new Set(candidates.map((t) => t.id)),
+          redactor,
+          tasks: request.tasks,
+          budgetMinutes: request.budgetMinutes ?? null,
+        },
+      };
+    }
+
+    const shortlisted: PayloadTask[] = [];
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i] ?? [];
+      onProgress?.(`Round ${round}: ranking batch ${i + 1} of ${batches.length}…`);
+      const { ranked } = await rankBatch(settings, run.request, batch, shortlistSize(batch, maxTasks), onProgress);
+      const byId = new Map(batch.map((t) => [t.id, t]));
+      for (const { id } of ranked) {
+        const task = byId.get(id);
+        if (task) shortlisted.push(task);
+      }
+    }
+
+    if (!shortlisted.length) return { ranked: [], conversation: null };
+    candidates = shortlisted;
+    round++;
+  }
+}
+
+export interface PayloadPreview {
+  offline: boolean;          // heuristic mode: nothing is sent
+  requests: ChatMessage[][]; // the first round, one conversation per batch
+  laterRounds: boolean;      // more than one batch, so shortlists are ranked again
+  excluded: number;          // tasks held back by privacy tags
+  masked: number;            // distinct values masked by redaction patterns
+  notes: number;             // notes replaced by an alias
+}
+
+/**
+ * Builds exactly what a ranking run would send first, without sending it.
+ * Later rounds resend the shortlisted tasks from these same payloads.
+ */
+export function previewRankingPayload(settings: AiTaskPickerSettings, request: RankRequest): PayloadPreview {
+  const modelRequest = request.budgetMinutes
+    ? { ...request, maxTasks: Math.min(request.tasks.length, BUDGET_CANDIDATES) }
+    : request;
+  const run = prepareModelRun(settings, modelRequest);
+  const batches = splitIntoBatches(run.candidates, run.batchSize, run.tokenBudget);
+  const { maxTasks } = modelRequest;
+  const laterRounds = batches.length > 1 && batches.some((batch) => batch.length > 1);
+  const requests = laterRounds
+    ? batches.map((batch) => batchMessages(run.request, batch, shortlistSize(batch, maxTasks)))
+    : [batchMessages(run.request, run.candidates, maxTasks)];
+  return {
+    offline: settings.rankingMode === "heuristic",
+    requests,
+    laterRounds,
+    excluded: run.excluded,
+    masked: run.redactor.masked(),
+    notes: run.redactor.notes(),
+  };
+}
+
+async function rankCandidates(
+  settings: AiTaskPickerSettings,
+  request: RankRequest,
+  onProgress?: (message: string) => void
+): Promise<RankingResult> {
+  const { prioritiesText, tasks, maxTasks } = request;
+  const dependencies = request.dependencies ?? null;
+  const offline = (): RankingResult => ({
+    ranked: rankTasksHeuristically(prioritiesText, tasks, maxTasks, dependencies),
+    conversation: null,
+  });
+  if (settings.rankingMode === "heuristic") return offline();
+
+  try {
+    const result = await rankTasksWithModel(settings, request, onProgress);
+    if (result.ranked.length || !settings.fallbackToHeuristic) return result;
+    onProgress?.("The model returned no usable tasks. Using offline ranking.");
+  } catch (e: unknown) {
+    // A cancelled run stops; it doesn't fall back
+    if (request.signal?.aborted || !settings.fallbackToHeuristic) throw e;
+    warn("Remote ranking failed, falling back to heuristic:", e);
+    const msg = e instanceof Error ? e.message : String(e);
+    onProgress?.(`AI ranking failed (${msg}). Using offline ranking.`);
+  }
+  return offline();
+}
+
+/**
+ * Ranks tasks and returns the top `maxTasks`, or, with a time budget, the
+ * highest-ranked tasks that together fit in it. The conversation is kept
+ * when the model ranked them, so the result can be refined.
+ */
+export async function rankTasksForReview(
+  settings: AiTaskPickerSettings,
+  request: RankRequest,
+  onProgress?: (message: string) => void
+): Promise<RankingResult> {
+  const budget = request.budgetMinutes;
+  if (!budget) return rankCandidates(settings, request, onProgress);
+
+  const maxTasks = Math.min(request.tasks.length, BUDGET_CANDIDATES);
+  const result = await rankCandidates(settings, { ...request, maxTasks }, onProgress);
+  return { ...result, ranked: fillTimeBudget(result.ranked, request.tasks, budget) };
+}
+
+export async function rankTasks(
+  settings: AiTaskPickerSettings,
+  request: RankRequest,
+  onProgress?: (message: string) => void
+): Promise<RankedTask[]> {
+  return (await rankTasksForReview(settings, request, onProgress)).ranked;
+}
+
+function refinementPrompt(instruction: string, maxTasks: number, budgetMinutes: number | null): string {
+  return [
+    `The user reviewed your ranking and asks: "${instruction}"`,
+    "Rank the same tasks again with this in mind, keeping everything else you were told.",
+    budgetMinutes
+      ? `Return up to ${maxTasks} tasks in order; they will be cut to fit ${budgetMinutes} minutes.`
+      : `Return at most ${maxTasks} tasks.`,
+    "Reply with only JSON of the same form, using only ids from the tasks array.",
+  ].join(" ");
+}
+
+/**
+ * Continues a ranking conversation with a follow-up instruction such as
+ * "fewer admin tasks". The model sees everything it was sent before plus its
+ * own replies, and picks again from the same candidates. The instruction is
+ * redacted like the rest of the payload.
+ */
+export async function refineRanking(
+  settings: AiTaskPickerSettings,
+  conversation: RankingConversation,
+  instruction: string,
+  hooks: Pick<RankRequest, "onUsage" | "signal"> = {},
+  onProgress?: (message: string) => void
+): Promise<RankingResult> {
+  const { redactor, known, budgetMinutes } = conversation;
+  // The first run's usage callback and signal belong to that run
+  const request: RankRequest = { ...conversation.request, onUsage: hooks.onUsage, signal: hooks.signal };
+  const messages: ChatMessage[] = [
+    ...conversation.messages,
+    { role: "user", content: refinementPrompt(redactor.text(instruction), request.maxTasks, budgetMinutes) },
+  ];
+  const reply = await askForRanking(settings, request, messages, known, request.maxTasks, onProgress);
+  const ranked = restoreRanking(reply.ranked, redactor);
+  return {
+    ranked: budgetMinutes ? fillTimeBudget(ranked, conversation.tasks, budgetMinutes) : ranked,
+    conversation: { ...conversation, messages: reply.messages },
+  };
+}
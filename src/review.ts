@@ -0,0 +1,342 @@
+import { TaskItem } from "./types";
+import { RankingHistoryEntry } from "./history";
+import { AiTaskPickerSettings, ReviewSettings } from "./settings";
+import { ChatMessage, ResponseSchema, TokenUsage, sendChat } from "./providers";
+import { createRedactor } from "./privacy";
+import { replyTokens, toPayloadTask } from "./ranker";
+import { daysBetween, formatIsoDate, normalizeBlockId } from "./utils";
+
+// Upper bounds in days, youngest first
+const AGE_BUCKETS: Array<[string, number]> = [
+  ["Under a week", 7],
+  ["1–4 weeks", 28],
+  ["1–3 months", 91],
+  ["3–12 months", 365],
+  ["Over a year", Infinity],
+];
+
+// Tasks embedded per age bucket; the rest are only counted
+const BUCKET_LIMIT = 10;
+
+// Tasks offered to the model for suggestions, stalest first
+const MAX_SUGGESTION_CANDIDATES = 40;
+
+export interface AgeBucket {
+  label: string;
+  tasks: TaskItem[]; // oldest first, at most BUCKET_LIMIT
+  total: number;
+}
+
+export interface RepeatedPick {
+  task: TaskItem;
+  times: number;
+  firstRanked: string; // ISO date of the first run that picked it
+}
+
+export interface Completion {
+  description: string;
+  note: string | null; // null for completions only known from ranking history
+  date: string;
+}
+
+export type SuggestionAction = "drop" | "break_down";
+
+export interface ReviewSuggestion {
+  task: TaskItem;
+  action: SuggestionAction;
+  reason: string;
+  steps: string[]; // first steps, for break_down
+}
+
+export interface TaskReview {
+  date: string;  // today
+  since: string; // the previous review, or a week ago
+  open: number;
+  buckets: AgeBucket[];
+  repeated: RepeatedPick[];
+  completions: Completion[];
+  suggestions: ReviewSuggestion[] | null; // null when not asked for
+  suggestionsNote: string | null;         // why there are none, if not obvious
+}
+
+function ageOf(task: TaskItem, today: string): number | null {
+  return task.created ? daysBetween(task.created, today) : null;
+}
+
+function byAgeDescending(today: string) {
+  return (a: TaskItem, b: TaskItem) => (ageOf(b, today) ?? 0) - (ageOf(a, today) ?? 0);
+}
+
+/** Groups open tasks by how long ago they were created, oldest bucket first. Empty buckets are left out. */
+export function bucketByAge(tasks: TaskItem[], today: string): AgeBucket[] {
+  const groups: TaskItem[][] = AGE_BUCKETS.map(() => []);
+  const undated: TaskItem[] = [];
+  for (const task of tasks) {
+    const age = ageOf(task, today);
+    if (age == null) {
+      undated.push(task);
+      continue;
+    }
+    const index = AGE_BUCKETS.findIndex(([, max]) => age < max);
+    groups[index === -1 ? AGE_BUCKETS.length - 1 : index]?.push(task);
+  }
+  const buckets = AGE_BUCKETS.map(([label], i) => {
+    const group = (groups[i] ?? []).sort(byAgeDescending(today));
+    return { label, tasks: group.slice(0, BUCKET_LIMIT), total: group.length };
+  }).reverse();
+  buckets.push({ label: "No created date", tasks: undated.slice(0, BUCKET_LIMIT), total: undated.length });
+  return buckets.filter((bucket) => bucket.total > 0);
+}
+
+/** Open tasks that ranking runs picked at least `threshold` times, most often picked first. */
+export function repeatedlyRanked(
+  history: RankingHistoryEntry[],
+  openTasks: TaskItem[],
+  threshold: number
+): RepeatedPick[] {
+  const byId = new Map(openTasks.map((task) => [normalizeBlockId(task.id), task]));
+  const picks = new Map<string, RepeatedPick>();
+  for (const run of [...history].sort((a, b) => a.runId.localeCompare(b.runId))) {
+    for (const id of run.rankedIds) {
+      const task = byId.get(normalizeBlockId(id));
+      if (!task) continue;
+      const pick = picks.get(task.id);
+      if (pick) pick.times++;
+      else picks.set(task.id, { task, times: 1, firstRanked: run.runId.slice(0, 10) });
+    }
+  }
+  return [...picks.values()]
+    .filter((pick) => pick.times >= Math.max(1, threshold))
+    .sort((a, b) => b.times - a.times);
+}
+
+/**
+ * Tasks completed on or after `since`: ones with a ✅ date, plus ones checked
+ * off from a ranking (recorded in history) whose line carries no date.
+ */
+export function completionsSince(
+  doneTasks: TaskItem[],
+  history: RankingHistoryEntry[],
+  since: string
+): Completion[] {
+  const completions: Completion[] = doneTasks
+    .filter((task) => task.done && task.done >= since)
+    .map((task) => ({ description: task.description || task.text, note: task.note, date: task.done as string }));
+  const seen = new Set(completions.map((c) => c.description));
+  for (const run of history) {
+    for (const correction of run.corrections) {
+      const date = correction.at.slice(0, 10);
+      const description = run.descriptions[correction.taskId];
+      if (correction.kind !== "completed" || date < since || !description || seen.has(description)) continue;
+      seen.add(description);
+      completions.push({ description, note: null, date });
+    }
+  }
+  return completions.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function buildReview(
+  openTasks: TaskItem[],
+  doneTasks: TaskItem[],
+  history: RankingHistoryEntry[],
+  since: string,
+  settings: ReviewSettings,
+  now: Date = new Date()
+): TaskReview {
+  return {
+    date: formatIsoDate(now),
+    since,
+    open: openTasks.length,
+    buckets: bucketByAge(openTasks, formatIsoDate(now)),
+    repeated: repeatedlyRanked(history, openTasks, settings.repeatThreshold),
+    completions: completionsSince(doneTasks, history, since),
+    suggestions: null,
+    suggestionsNote: null,
+  };
+}
+
+/** Repeatedly ranked tasks first, then tasks older than `staleDays`, oldest first. */
+export function suggestionCandidates(review: TaskReview, openTasks: TaskItem[], staleDays: number): TaskItem[] {
+  const candidates = new Set<TaskItem>(review.repeated.map((pick) => pick.task));
+  const stale = openTasks
+    .filter((task) => (ageOf(task, review.date) ?? 0) >= staleDays)
+    .sort(byAgeDescending(review.date));
+  for (const task of stale) candidates.add(task);
+  return [...candidates].slice(0, MAX_SUGGESTION_CANDIDATES);
+}
+
+const REVIEW_PROMPT = [
+  "You help a user review their task list. The tasks below have been open a long time or keep being picked without getting done.",
+  "Suggest which to drop (no longer worth doing given the priorities) and which to break down (too big or vague to start).",
+  "Only suggest tasks that clearly need it; suggesting none is fine.",
+  "Use `age_days` and `times_ranked` as evidence, and weigh the priorities text when it is given.",
+  'Reply with only JSON: { "suggestions": [{ "id": "...", "action": "drop" | "break_down", "reason": "one short sentence", "steps": ["..."] }] }.',
+  "For break_down give 2-5 concrete first steps; for drop give an empty steps array. Use only ids from the tasks array.",
+].join(" ");
+
+const SUGGESTIONS_SCHEMA: ResponseSchema = {
+  name: "review_suggestions",
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["suggestions"],
+    properties: {
+      suggestions: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          required: ["id", "action", "reason", "steps"],
+          properties: {
+            id: { type: "string" },
+            action: { type: "string", enum: ["drop", "break_down"] },
+            reason: { type: "string" },
+            steps: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Asks the model which candidates to drop or break down. The payload goes
+ * through the privacy rules like a ranking does, and the reply is mapped
+ * back. Throws if the reply can't be read.
+ */
+export async function suggestCleanup(
+  settings: AiTaskPickerSettings,
+  candidates: TaskItem[],
+  review: TaskReview,
+  prioritiesText: string,
+  hooks: { model?: string; signal?: AbortSignal; onUsage?: (usage: TokenUsage | null) => void } = {}
+): Promise<ReviewSuggestion[]> {
+  const redactor = createRedactor(settings.privacy);
+  const times = new Map(review.repeated.map((pick) => [pick.task, pick.times]));
+  const sent = candidates.filter((task) => !redactor.isExcluded(task));
+  if (!sent.length) return [];
+
+  const byPayloadId = new Map<string, TaskItem>();
+  const tasks = sent.map((task) => {
+    const payload = toPayloadTask(task, null, redactor);
+    byPayloadId.set(payload.id, task);
+    const age = ageOf(task, review.date);
+    if (age != null) payload.age_days = age;
+    if (times.has(task)) payload.times_ranked = times.get(task);
+    return payload;
+  });
+  const messages: ChatMessage[] = [
+    { role: "system", content: REVIEW_PROMPT },
+    {
+      role: "user",
+      content: JSON.stringify({ priorities_text: redactor.text(prioritiesText), tasks }),
+    },
+  ];
+
+  const response = await sendChat(settings, messages, {
+    model: hooks.model,
+    schema: SUGGESTIONS_SCHEMA,
+    signal: hooks.signal,
+    // Breakdowns carry several steps each
+    maxOutputTokens: replyTokens(tasks.length, 250),
+  });
+  hooks.onUsage?.(response.usage);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(response.content.replace(/^\s*```(?:json)?/i, "").replace(/```\s*$/i, "").trim());
+  } catch {
+    throw new Error("The model's review suggestions were not valid JSON.");
+  }
+  if (!Array.isArray(parsed?.suggestions)) {
+    throw new Error("The model's review suggestions had no \"suggestions\" array.");
+  }
+
+  const suggestions: ReviewSuggestion[] = [];
+  const seen = new Set<TaskItem>();
+  for (const entry of parsed.suggestions) {
+    const task = byPayloadId.get(normalizeBlockId(entry?.id));
+    const action = entry?.action === "break_down" || entry?.action === "break-down" ? "break_down" : entry?.action;
+    if (!task || seen.has(task) || (action !== "drop" && action !== "break_down")) continue;
+    seen.add(task);
+    suggestions.push({
+      task,
+      action,
+      reason: redactor.restore(String(entry.reason ?? "").trim()),
+      steps: action === "break_down" && Array.isArray(entry.steps)
+        ? entry.steps.map((step: unknown) => redactor.restore(String(step).trim())).filter(Boolean)
+        : [],
+    });
+  }
+  return suggestions;
+}
+
+/** All tasks the review note embeds, so their block IDs can be written first. */
+export function reviewedTasks(review: TaskReview): TaskItem[] {
+  const tasks = new Set<TaskItem>();
+  for (const pick of review.repeated) tasks.add(pick.task);
+  for (const suggestion of review.suggestions ?? []) tasks.add(suggestion.task);
+  for (const bucket of review.buckets) bucket.tasks.forEach((task) => tasks.add(task));
+  return [...tasks];
+}
+
+/**
+ * Renders the review note. `embed` returns the embed for a task, or null
+ * when it has no block ID, in which case the task is linked by note instead.
+ */
+export function renderReview(review: TaskReview, embed: (task: TaskItem) => string | null): string {
+  const show = (task: TaskItem): string =>
+    embed(task) ?? `- ${task.description || task.text} ([[${task.note.replace(/\.md$/i, "")}]])`;
+  const lines: string[] = [
+    `# Task review ${review.date}`,
+    "",
+    `${review.open} open task(s). ${review.completions.length} completed since ${review.since}.`,
+    "",
+    "| Age | Tasks |",
+    "| --- | ---: |",
+    ...review.buckets.map((bucket) => `| ${bucket.label} | ${bucket.total} |`),
+  ];
+
+  lines.push("", `## Completed since ${review.since}`, "");
+  if (!review.completions.length) lines.push("Nothing recorded.");
+  for (const c of review.completions) {
+    const where = c.note ? ` ([[${c.note.replace(/\.md$/i, "")}]])` : "";
+    lines.push(`- ✅ ${c.date} ${c.description}${where}`);
+  }
+
+  if (review.repeated.length) {
+    lines.push("", "## Ranked repeatedly, never done", "");
+    for (const pick of review.repeated) {
+      lines.push(show(pick.task), `*Picked ${pick.times} times since ${pick.firstRanked}.*`, "");
+    }
+  }
+
+  if (review.suggestions || review.suggestionsNote) {
+    lines.push("", "## Suggestions", "");
+    if (review.suggestionsNote) lines.push(review.suggestionsNote, "");
+    const groups: Array<[SuggestionAction, string]> = [["drop", "Consider dropping"], ["break_down", "Break down"]];
+    for (const [action, title] of groups) {
+      const items = (review.suggestions ?? []).filter((s) => s.action === action);
+      if (!items.length) continue;
+      lines.push(`### ${title}`, "");
+      for (const s of items) {
+        lines.push(show(s.task));
+        if (s.reason) lines.push(`*${s.reason}*`);
+        // Plain bullets: checkboxes here would be collected as tasks themselves
+        for (const step of s.steps) lines.push(`- ${step}`);
+        lines.push("");
+      }
+    }
+    if (review.suggestions && !review.suggestions.length && !review.suggestionsNote) {
+      lines.push("No tasks to drop or break down.");
+    }
+  }
+
+  lines.push("", "## By age");
+  for (const bucket of review.buckets) {
+    lines.push("", `### ${bucket.label} (${bucket.total})`, "");
+    for (const task of bucket.tasks) lines.push(show(task));
+    if (bucket.total > bucket.tasks.length) lines.push(`…and ${bucket.total - bucket.tasks.length} more.`);
+  }
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trimEnd() + "\n";
+}
@@ -1,119 +1,125 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { DEFAULT_FILTER_RULES, TaskFilterRules } from "./filters";
+import { RationaleFormat } from "./output";
+import { DEFAULT_PROFILE, RankingProfile, normalizeProfile } from "./profiles";
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySettings } from "./privacy";
+import { DEFAULT_MODEL_PRICES, DEFAULT_USAGE_BUDGET, ModelPriceTable, UsageBudgetSettings } from "./usage";
+import { DEFAULT_TASK_STATUSES, TaskStatusTable } from "./taskStatus";
+
+export type LlmProviderKind = "openai" | "openai-compatible" | "ollama" | "anthropic";
+
+export type RankingMode = "ai" | "heuristic";
+
+export interface DailyPlanSettings {
+  enabled: boolean;
+  match: "daily-note" | "pattern"; // today's daily note, or any note matching pathPattern
+  pathPattern: string;        // glob against the note path
+  profileId: string;          // empty = first profile
+  heading: string;            // the plan goes under this heading (added if missing)
+  target: string;             // a task count ("5") or a time budget ("2h")
+}
+
+export interface ReviewSettings {
+  folder: string;             // review notes are created here
+  staleDays: number;          // open at least this long (by created date) counts as stale
+  repeatThreshold: number;    // ranked this many times without being done
+  suggestions: boolean;       // ask the model what to drop or break down
+}
 
 export interface AiTaskPickerSettings {
-  folders: string[];          // whitelist (prefix match) for task paths
-  openaiApiKey: string;
-  model: string;
-  prioritiesHeading: string;
-  rankingPrompt: string;
+  profiles: RankingProfile[]; // folders, heading, prompt and output per ranking context
+  rankingMode: RankingMode;
+  fallbackToHeuristic: boolean; // use the offline ranker if the LLM call fails
+  provider: LlmProviderKind;
+  baseUrl: string;            // empty = provider default
+  apiKey: string;
+  customHeaders: string;      // one "Name: value" per line
+  model: string;              // used by profiles that don't set their own
+  requestTimeoutSeconds: number; // per attempt
+  maxRetries: number;         // retries on timeouts, network errors, 429 and 5xx
+  confirmBackgroundEdits: boolean; // preview block ID writes before applying
+  rationaleFormat: RationaleFormat;
+  feedbackExamples: number;   // recent corrections included in the prompt (0 = off)
+  historyLimit: number;       // ranking runs kept in plugin data
+  batchSize: number;          // max tasks per ranking request
+  tokenBudget: number;        // approx. input tokens per ranking request
+  filters: TaskFilterRules;
+  taskStatuses: TaskStatusTable; // checkbox symbol → status; unlisted symbols are open
+  dailyPlan: DailyPlanSettings;
+  privacy: PrivacySettings;   // what is held back or masked before sending to the model
+  modelPrices: ModelPriceTable; // USD per million tokens, for cost estimates
+  budget: UsageBudgetSettings;
+  review: ReviewSettings;
 }
 
 export const DEFAULT_SETTINGS: AiTaskPickerSettings = {
-  folders: ["Daily Notes", "1 Projects"],
-  openaiApiKey: "",
+  profiles: [DEFAULT_PROFILE],
+  rankingMode: "ai",
+  fallbackToHeuristic: true,
+  provider: "openai",
+  baseUrl: "",
+  apiKey: "",
+  customHeaders: "",
   model: "gpt-4o-mini",
-  prioritiesHeading: "🎯 Next Week's Priorities",
-  rankingPrompt: [
-    "You are my executive assistant. Rank my tasks against the supplied priorities.",
-    "",
-    "Constraints:",
-    "- Return STRICT JSON: { \"ranked_task_ids\": [\"id1\", \"id2\", ...] }",
-    "- Only include ids that exist in the provided tasks array.",
-    "- Prefer tasks that advance the stated priorities.",
-    "- Balance urgency (older created dates), unblockers, external visibility / consequence of delay.",
-    "- Avoid picking near-duplicates unless they are different concrete steps.",
-    "",
-    "Output must be valid JSON only. No commentary."
-  ].join("\n"),
+  requestTimeoutSeconds: 60,
+  maxRetries: 2,
+  confirmBackgroundEdits: true,
+  rationaleFormat: "none",
+  feedbackExamples: 5,
+  historyLimit: 50,
+  batchSize: 60,
+  tokenBudget: 12000,
+  filters: DEFAULT_FILTER_RULES,
+  taskStatuses: DEFAULT_TASK_STATUSES,
+  dailyPlan: {
+    enabled: false,
+    match: "daily-note",
+    pathPattern: "Daily Notes/*.md",
+    profileId: "",
+    heading: "🗓️ Today's plan",
+    target: "5",
+  },
+  privacy: DEFAULT_PRIVACY_SETTINGS,
+  modelPrices: DEFAULT_MODEL_PRICES,
+  budget: DEFAULT_USAGE_BUDGET,
+  review: {
+    folder: "Reviews",
+    staleDays: 30,
+    repeatThreshold: 3,
+    suggestions: true,
+  },
 };
 
-export class AiTaskPickerSettingTab extends PluginSettingTab {
-  plugin: { settings: AiTaskPickerSettings; saveSettings: () => Promise<void> };
+// Settings that became per-profile; older data.json files have them at the top level
+const LEGACY_PROFILE_KEYS = ["folders", "prioritiesHeading", "rankingPrompt", "outputFormat"] as const;
 
-  constructor(app: App, plugin: any) {
-    super(app, plugin);
-    this.plugin = plugin;
+export function resolveSettings(data: any): AiTaskPickerSettings {
+  const migrated = { ...(data ?? {}) };
+  // 1.0.x stored the key as `openaiApiKey`
+  if (typeof migrated.openaiApiKey === "string" && !migrated.apiKey) {
+    migrated.apiKey = migrated.openaiApiKey;
   }
+  delete migrated.openaiApiKey;
+  // History, the edit journal, usage records and the last review date share data.json but are loaded separately
+  delete migrated.history;
+  delete migrated.journal;
+  delete migrated.usage;
+  delete migrated.lastReviewAt;
 
-  display(): void {
-    const { containerEl } = this;
-    containerEl.empty();
-    containerEl.createEl("h2", { text: "AI Task Picker Settings" });
-
-    // Overview description
-    const intro = containerEl.createDiv();
-    intro.style.marginBottom = "1.5em";
-    intro.style.lineHeight = "1.6";
-    intro.createEl("p", { 
-      text: "This plugin ranks tasks from the Obsidian Tasks plugin using OpenAI, based on your priorities. Configure the folders to scan, the heading to extract priorities from, and customize the AI ranking behavior."
-    });
-
-    new Setting(containerEl)
-      .setName("Folders to scan")
-      .setDesc("Specify which folders contain tasks to rank. Enter one folder path per line (prefix matching). The plugin will search these folders and their subfolders for tasks. The active note is always excluded to prevent self-references.\n\nExample:\nDaily Notes\n1 Projects\n3 Areas/Work")
-      .addTextArea((ta) => {
-        ta.setValue(this.plugin.settings.folders.join("\n"))
-          .onChange(async (v) => {
-            this.plugin.settings.folders = v
-              .split("\n")
-              .map((s) => s.trim().replace(/^\/+|\/+$/g, ""))
-              .filter(Boolean);
-            await this.plugin.saveSettings();
-          });
-        ta.inputEl.rows = 4;
-      });
-
-    new Setting(containerEl)
-      .setName("Priorities heading")
-      .setDesc("The heading in your active note where you've written your current priorities. The plugin will extract the content under this heading and send it to OpenAI to guide task ranking. Supports emojis and punctuation variations.\n\nExample: 🎯 Next Week's Priorities")
-      .addText((t) =>
-        t
-          .setPlaceholder("🎯 Next Week's Priorities")
-          .setValue(this.plugin.settings.prioritiesHeading)
-          .onChange(async (v) => {
-            this.plugin.settings.prioritiesHeading = v.trim();
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("OpenAI API Key")
-      .setDesc("Your OpenAI API key for task ranking. Get one at platform.openai.com/api-keys. This key is stored locally in your vault's plugin configuration and is never sent anywhere except directly to OpenAI's API.")
-      .addText((t) =>
-        t
-          .setPlaceholder("sk-...")
-          .setValue(this.plugin.settings.openaiApiKey)
-          .onChange(async (v) => {
-            this.plugin.settings.openaiApiKey = v.trim();
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("OpenAI Model")
-      .setDesc("The OpenAI model to use for ranking. Recommended: gpt-4o-mini (fast and cost-effective) or gpt-4o (more capable). See platform.openai.com/docs/models for available models.")
-      .addText((t) =>
-        t
-          .setPlaceholder("gpt-4o-mini")
-          .setValue(this.plugin.settings.model)
-          .onChange(async (v) => {
-            this.plugin.settings.model = (v || "").trim() || "gpt-4o-mini";
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("Ranking Prompt (System)")
-      .setDesc("Customize the system prompt that guides how the AI ranks your tasks. The prompt receives your priorities text and task list, then returns ranked task IDs. Clear this field to reset to the default prompt. Advanced users can modify the ranking logic here.")
-      .addTextArea((ta) => {
-        ta.setValue(this.plugin.settings.rankingPrompt)
-          .onChange(async (v) => {
-            this.plugin.settings.rankingPrompt =
-              (v || "").trim() || DEFAULT_SETTINGS.rankingPrompt;
-            await this.plugin.saveSettings();
-          });
-        ta.inputEl.rows = 8;
-        ta.inputEl.style.fontFamily = "var(--font-monospace)";
-      });
+  if (!Array.isArray(migrated.profiles) || migrated.profiles.length === 0) {
+    const legacy: Record<string, unknown> = {};
+    for (const key of LEGACY_PROFILE_KEYS) {
+      if (migrated[key] !== undefined) legacy[key] = migrated[key];
+    }
+    migrated.profiles = [legacy];
   }
-}
\ No newline at end of file
+  for (const key of LEGACY_PROFILE_KEYS) delete migrated[key];
+
+  const settings: AiTaskPickerSettings = Object.assign({}, DEFAULT_SETTINGS, migrated);
+  settings.profiles = migrated.profiles.map(normalizeProfile);
+  settings.filters = { ...DEFAULT_FILTER_RULES, ...(migrated.filters ?? {}) };
+  settings.dailyPlan = { ...DEFAULT_SETTINGS.dailyPlan, ...(migrated.dailyPlan ?? {}) };
+  settings.privacy = { ...DEFAULT_PRIVACY_SETTINGS, ...(migrated.privacy ?? {}) };
+  settings.budget = { ...DEFAULT_USAGE_BUDGET, ...(migrated.budget ?? {}) };
+  settings.review = { ...DEFAULT_SETTINGS.review, ...(migrated.review ?? {}) };
+  return settings;
+}
@@ -0,0 +1,1016 @@
+import { App, PluginSettingTab, Setting, TFile, debounce } from "obsidian";
+import { PROVIDERS } from "./providers";
+import { TaskLevel, applyTaskFilters } from "./filters";
+import { TaskItem } from "./types";
+import { DependencyGraph } from "./dependencies";
+import { OutputFormat, RationaleFormat } from "./output";
+import {
+  DEFAULT_PROFILE,
+  DEFAULT_RANKING_PROMPT,
+  RankingProfile,
+  createProfileId,
+  duplicateProfile,
+  normalizeProfile,
+} from "./profiles";
+import {
+  AiTaskPickerSettings,
+  DEFAULT_SETTINGS,
+  DailyPlanSettings,
+  LlmProviderKind,
+  RankingMode,
+} from "./settings";
+import { parsePickTarget } from "./timeBudget";
+import { compileRedactPatterns } from "./privacy";
+import {
+  BudgetAction,
+  ModelPriceTable,
+  UsageRecord,
+  UsageTotals,
+  formatCost,
+  formatTokens,
+  monthToDate,
+  usageByPeriod,
+} from "./usage";
+import { TASK_STATUSES, TaskStatusTable } from "./taskStatus";
+import { TaskStatus } from "./types";
+
+function parseLines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// One "<symbol> <status>" per line, e.g. "/ in-progress"; other lines are ignored
+function parseStatusTable(value: string): TaskStatusTable {
+  const table: TaskStatusTable = {};
+  for (const line of value.split("\n")) {
+    const m = line.trim().match(/^(\S)\s+(\S+)$/);
+    if (m && m[1] && TASK_STATUSES.includes(m[2] as TaskStatus)) table[m[1]] = m[2] as TaskStatus;
+  }
+  return table;
+}
+
+function formatStatusTable(table: TaskStatusTable): string {
+  return Object.entries(table)
+    .filter(([symbol]) => symbol !== " ")
+    .map(([symbol, status]) => `${symbol} ${status}`)
+    .join("\n");
+}
+
+// One "<model> <input> <output>" per line, in USD per million tokens
+function parsePriceTable(value: string): ModelPriceTable {
+  const table: ModelPriceTable = {};
+  for (const line of value.split("\n")) {
+    const m = line.trim().match(/^(\S+)\s+(\d+(?:\.\d+)?)\s+(\d+(?:\.\d+)?)$/);
+    if (m && m[1]) table[m[1]] = { input: Number(m[2]), output: Number(m[3]) };
+  }
+  return table;
+}
+
+function formatPriceTable(table: ModelPriceTable): string {
+  return Object.entries(table)
+    .map(([model, price]) => `${model} ${price.input} ${price.output}`)
+    .join("\n");
+}
+
+function describeTotals(totals: UsageTotals): string {
+  const cost = totals.unpriced
+    ? `${formatCost(totals.cost)} + ${totals.unpriced} unpriced run(s)`
+    : formatCost(totals.cost);
+  return `${cost} · ${totals.runs} run(s) · ${formatTokens(totals.promptTokens)} in / ${formatTokens(totals.completionTokens)} out`;
+}
+
+function parseOptionalNumber(value: string): number | null {
+  const n = Number(value.trim());
+  return value.trim() && Number.isFinite(n) && n >= 0 ? Math.floor(n) : null;
+}
+
+export class AiTaskPickerSettingTab extends PluginSettingTab {
+  plugin: {
+    settings: AiTaskPickerSettings;
+    saveSettings: () => Promise<void>;
+    collectTasks: (profile: RankingProfile, exclude: TFile | null) => Promise<TaskItem[]>;
+    dependencyGraph: () => DependencyGraph;
+    onProfilesChanged: () => void;
+    onTaskStatusesChanged: () => void;
+    usage: UsageRecord[];
+    clearUsage: () => Promise<void>;
+  };
+  private selectedProfileId: string | null = null;
+
+  constructor(app: App, plugin: any) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  display(): void {
+    const { containerEl } = this;
+    containerEl.empty();
+    containerEl.createEl("h2", { text: "AI Task Picker Settings" });
+
+    // Overview description
+    const intro = containerEl.createDiv();
+    intro.style.marginBottom = "1.5em";
+    intro.style.lineHeight = "1.6";
+    intro.createEl("p", { 
+      text: "This plugin ranks tasks from the Obsidian Tasks plugin using an LLM (OpenAI, an OpenAI-compatible endpoint, Ollama or Anthropic), based on your priorities. Configure the folders to scan, the heading to extract priorities from, and customize the AI ranking behavior."
+    });
+
+    this.displayProfiles(containerEl);
+
+    containerEl.createEl("h3", { text: "Ranking" });
+
+    new Setting(containerEl)
+      .setName("Ranking mode")
+      .setDesc("AI sends tasks to the configured LLM provider. Offline scores tasks locally by keyword overlap with your priorities, due dates, priority markers and age. No data leaves your vault.")
+      .addDropdown((d) =>
+        d
+          .addOption("ai", "AI (LLM provider)")
+          .addOption("heuristic", "Offline (heuristic)")
+          .setValue(this.plugin.settings.rankingMode)
+          .onChange(async (v) => {
+            this.plugin.settings.rankingMode = v as RankingMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Fall back to offline ranking")
+      .setDesc("If the LLM request fails (no API key, network down, provider error), rank with the offline heuristic instead of stopping.")
+      .addToggle((t) =>
+        t.setValue(this.plugin.settings.fallbackToHeuristic).onChange(async (v) => {
+          this.plugin.settings.fallbackToHeuristic = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    const provider = PROVIDERS[this.plugin.settings.provider] ?? PROVIDERS.openai;
+
+    new Setting(containerEl)
+      .setName("LLM provider")
+      .setDesc("Which API answers ranking requests. OpenAI-compatible covers Azure OpenAI, internal gateways, LM Studio and llama.cpp servers. Ollama uses its native /api/chat endpoint. Anthropic uses the Messages API.")
+      .addDropdown((d) => {
+        for (const [kind, p] of Object.entries(PROVIDERS)) d.addOption(kind, p.label);
+        d.setValue(this.plugin.settings.provider).onChange(async (v) => {
+          const previous = PROVIDERS[this.plugin.settings.provider];
+          const next = PROVIDERS[v as LlmProviderKind];
+          this.plugin.settings.provider = v as LlmProviderKind;
+          // Carry the model over only if the user picked something custom
+          if (next && (!this.plugin.settings.model || this.plugin.settings.model === previous?.defaultModel)) {
+            this.plugin.settings.model = next.defaultModel;
+          }
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Base URL")
+      .setDesc(`Endpoint root for the provider. Leave empty to use ${provider.defaultBaseUrl}. Query strings are preserved, so Azure deployments can use e.g. https://NAME.openai.azure.com/openai/deployments/DEPLOYMENT?api-version=2024-06-01`)
+      .addText((t) =>
+        t
+          .setPlaceholder(provider.defaultBaseUrl)
+          .setValue(this.plugin.settings.baseUrl)
+          .onChange(async (v) => {
+            this.plugin.settings.baseUrl = v.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("API key")
+      .setDesc(`Your API key for ${provider.label}.${provider.requiresApiKey ? "" : " Optional for this provider."} This key is stored locally in your vault's plugin configuration and is only sent to the configured endpoint.`)
+      .addText((t) =>
+        t
+          .setPlaceholder(this.plugin.settings.provider === "anthropic" ? "sk-ant-..." : "sk-...")
+          .setValue(this.plugin.settings.apiKey)
+          .onChange(async (v) => {
+            this.plugin.settings.apiKey = v.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Custom headers")
+      .setDesc("Extra HTTP headers sent with every request, one \"Name: value\" per line. Useful for gateway tokens or Azure's api-key header.")
+      .addTextArea((ta) => {
+        ta.setPlaceholder("api-key: ...")
+          .setValue(this.plugin.settings.customHeaders)
+          .onChange(async (v) => {
+            this.plugin.settings.customHeaders = v;
+            await this.plugin.saveSettings();
+          });
+        ta.inputEl.rows = 3;
+        ta.inputEl.style.fontFamily = "var(--font-monospace)";
+      });
+
+    new Setting(containerEl)
+      .setName("Model")
+      .setDesc(`The model to use for ranking, unless a profile sets its own. Default for ${provider.label}: ${provider.defaultModel}. For OpenAI, gpt-4o-mini is fast and cost-effective while gpt-4o is more capable.`)
+      .addText((t) =>
+        t
+          .setPlaceholder(provider.defaultModel)
+          .setValue(this.plugin.settings.model)
+          .onChange(async (v) => {
+            this.plugin.settings.model = (v || "").trim() || provider.defaultModel;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Request timeout (seconds)")
+      .setDesc("How long to wait for each LLM request before giving up on that attempt.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.requestTimeoutSeconds))
+          .setValue(String(this.plugin.settings.requestTimeoutSeconds))
+          .onChange(async (v) => {
+            const n = parseOptionalNumber(v);
+            this.plugin.settings.requestTimeoutSeconds = n && n >= 1 ? n : DEFAULT_SETTINGS.requestTimeoutSeconds;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Retries")
+      .setDesc("How often to retry a request that timed out, failed to connect, was rate limited (429) or hit a server error (5xx). Retries back off exponentially and honour the provider's Retry-After header.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.maxRetries))
+          .setValue(String(this.plugin.settings.maxRetries))
+          .onChange(async (v) => {
+            this.plugin.settings.maxRetries = parseOptionalNumber(v) ?? DEFAULT_SETTINGS.maxRetries;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Preview background edits")
+      .setDesc("Show every file and line that will receive a block ID and ask for approval before writing. All writes are journaled either way and can be reverted with “Undo last AI Task Picker changes”.")
+      .addToggle((t) =>
+        t.setValue(this.plugin.settings.confirmBackgroundEdits).onChange(async (v) => {
+          this.plugin.settings.confirmBackgroundEdits = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Ranking rationale")
+      .setDesc("How to show why each task was picked. Plain embeds keep the output to task embeds only.")
+      .addDropdown((d) =>
+        d
+          .addOption("none", "Plain embeds")
+          .addOption("callout", "Collapsible callout under each task")
+          .addOption("footnote", "Footnote per task")
+          .addOption("summary", "Single summary callout")
+          .setValue(this.plugin.settings.rationaleFormat)
+          .onChange(async (v) => {
+            this.plugin.settings.rationaleFormat = v as RationaleFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Learn from corrections")
+      .setDesc("Number of your most recent corrections (tasks completed, removed or moved in the ranked tasks view or a refreshed block) included in the prompt as examples. Set to 0 to disable.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.feedbackExamples))
+          .setValue(String(this.plugin.settings.feedbackExamples))
+          .onChange(async (v) => {
+            this.plugin.settings.feedbackExamples = parseOptionalNumber(v) ?? DEFAULT_SETTINGS.feedbackExamples;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("History size")
+      .setDesc("How many past ranking runs to keep in plugin data for learning from corrections.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.historyLimit))
+          .setValue(String(this.plugin.settings.historyLimit))
+          .onChange(async (v) => {
+            const n = parseOptionalNumber(v);
+            this.plugin.settings.historyLimit = n && n >= 1 ? n : DEFAULT_SETTINGS.historyLimit;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Batch size")
+      .setDesc("Maximum number of tasks sent in a single ranking request. Larger task sets are ranked in batches, and each batch's shortlist is merged in a final round.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.batchSize))
+          .setValue(String(this.plugin.settings.batchSize))
+          .onChange(async (v) => {
+            const n = Math.floor(Number(v));
+            this.plugin.settings.batchSize = Number.isFinite(n) && n >= 2 ? n : DEFAULT_SETTINGS.batchSize;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Token budget per request")
+      .setDesc("Approximate input tokens allowed per ranking request (prompt, priorities and tasks, estimated at ~4 characters per token). Keep this well under your model's context window. Minimum 2000.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.tokenBudget))
+          .setValue(String(this.plugin.settings.tokenBudget))
+          .onChange(async (v) => {
+            const n = Math.floor(Number(v));
+            this.plugin.settings.tokenBudget = Number.isFinite(n) && n >= 2000 ? n : DEFAULT_SETTINGS.tokenBudget;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.displayFilters(containerEl);
+    this.displayDailyPlan(containerEl);
+    this.displayPrivacy(containerEl);
+    this.displayReview(containerEl);
+    this.displayUsage(containerEl);
+  }
+
+  private selectedProfile(): RankingProfile {
+    const { profiles } = this.plugin.settings;
+    return profiles.find((p) => p.id === this.selectedProfileId) ?? profiles[0] ?? DEFAULT_PROFILE;
+  }
+
+  private displayProfiles(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Ranking profiles" });
+    containerEl.createEl("p", {
+      text: "Each profile bundles the folders to scan, the priorities heading, model, prompt, task count and output format. Every profile gets its own “Rank tasks: <name>” command that can be bound to a hotkey.",
+      cls: "setting-item-description",
+    });
+
+    const { settings } = this.plugin;
+    const profile = this.selectedProfile();
+    const saveProfiles = async () => {
+      await this.plugin.saveSettings();
+      this.plugin.onProfilesChanged();
+    };
+
+    let profileSelect: HTMLSelectElement | null = null;
+    new Setting(containerEl)
+      .setName("Profile")
+      .setDesc("The profile being edited below.")
+      .addDropdown((d) => {
+        for (const p of settings.profiles) d.addOption(p.id, p.name);
+        d.setValue(profile.id).onChange((v) => {
+          this.selectedProfileId = v;
+          this.display();
+        });
+        profileSelect = d.selectEl;
+      })
+      .addExtraButton((b) =>
+        b.setIcon("plus").setTooltip("Add profile").onClick(async () => {
+          const added = normalizeProfile({
+            id: createProfileId(settings.profiles),
+            name: `Profile ${settings.profiles.length + 1}`,
+          });
+          settings.profiles.push(added);
+          this.selectedProfileId = added.id;
+          await saveProfiles();
+          this.display();
+        })
+      )
+      .addExtraButton((b) =>
+        b.setIcon("copy").setTooltip("Duplicate profile").onClick(async () => {
+          const copy = duplicateProfile(profile, settings.profiles);
+          settings.profiles.push(copy);
+          this.selectedProfileId = copy.id;
+          await saveProfiles();
+          this.display();
+        })
+      )
+      .addExtraButton((b) => {
+        b.setIcon("trash").setTooltip("Delete profile");
+        // There must always be one profile to rank with
+        if (settings.profiles.length <= 1) {
+          b.setDisabled(true);
+          return;
+        }
+        b.onClick(async () => {
+          settings.profiles = settings.profiles.filter((p) => p.id !== profile.id);
+          this.selectedProfileId = null;
+          await saveProfiles();
+          this.display();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Name")
+      .setDesc("Shown in the profile picker and the command palette.")
+      .addText((t) =>
+        t.setValue(profile.name).onChange(async (v) => {
+          profile.name = v.trim() || "Untitled";
+          for (const option of Array.from(profileSelect?.options ?? [])) {
+            if (option.value === profile.id) option.text = profile.name;
+          }
+          await saveProfiles();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Folders to scan")
+      .setDesc("Specify which folders contain tasks to rank. Enter one folder path per line (prefix matching). The plugin will search these folders and their subfolders for tasks. The active note is always excluded to prevent self-references.\n\nExample:\nDaily Notes\n1 Projects\n3 Areas/Work")
+      .addTextArea((ta) => {
+        ta.setValue(profile.folders.join("\n"))
+          .onChange(async (v) => {
+            profile.folders = parseLines(v).map((f) => f.replace(/^\/+|\/+$/g, ""));
+            await this.plugin.saveSettings();
+          });
+        ta.inputEl.rows = 4;
+      });
+
+    const sources = profile.priorities;
+    const sourceList = (
+      name: string,
+      desc: string,
+      placeholder: string,
+      get: () => string[],
+      set: (values: string[]) => void
+    ) =>
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addTextArea((ta) => {
+          ta.setPlaceholder(placeholder)
+            .setValue(get().join("\n"))
+            .onChange(async (v) => {
+              set(parseLines(v));
+              await this.plugin.saveSettings();
+            });
+          ta.inputEl.rows = 3;
+        });
+
+    new Setting(containerEl)
+      .setName("Read priorities from the active note")
+      .setDesc("Look for the priority headings and frontmatter fields in the note the command runs in.")
+      .addToggle((t) =>
+        t.setValue(sources.activeNote).onChange(async (v) => {
+          sources.activeNote = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Priorities note")
+      .setDesc("A fixed note to read priorities from, wherever the command runs. Leave empty for none.")
+      .addText((t) =>
+        t
+          .setPlaceholder("Priorities.md")
+          .setValue(sources.notePath)
+          .onChange(async (v) => {
+            sources.notePath = v.trim().replace(/^\/+/, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    sourceList(
+      "Periodic notes",
+      "Path templates for the current weekly, monthly (or any) periodic note, one per line, in moment.js date format. Text in [brackets] is literal.",
+      "Weekly/gggg-[W]ww\nMonthly/YYYY-MM",
+      () => sources.periodicNotes,
+      (v) => (sources.periodicNotes = v)
+    );
+    sourceList(
+      "Priorities headings",
+      "Headings to read from each source note, one per line. The content under each heading is extracted. Supports emojis and punctuation variations.",
+      DEFAULT_PROFILE.priorities.headings[0] ?? "",
+      () => sources.headings,
+      (v) => (sources.headings = v)
+    );
+    sourceList(
+      "Priorities frontmatter fields",
+      "Frontmatter fields to read from each source note, one per line. List values become bullet points.",
+      "goals",
+      () => sources.frontmatterFields,
+      (v) => (sources.frontmatterFields = v)
+    );
+
+    new Setting(containerEl)
+      .setName("Model")
+      .setDesc("Model for this profile. Leave empty to use the global model below.")
+      .addText((t) =>
+        t
+          .setPlaceholder(settings.model)
+          .setValue(profile.model)
+          .onChange(async (v) => {
+            profile.model = v.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Default task count")
+      .setDesc("Pre-filled in the “How many tasks” prompt when running this profile.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_PROFILE.defaultCount))
+          .setValue(String(profile.defaultCount))
+          .onChange(async (v) => {
+            const n = parseOptionalNumber(v);
+            profile.defaultCount = n && n >= 1 ? n : DEFAULT_PROFILE.defaultCount;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Output format")
+      .setDesc("How ranked tasks are inserted. Embeds and links need a block ID on the source task, so one is written onto each selected task (and only those). Copied lines and Tasks queries leave your notes untouched.")
+      .addDropdown((d) =>
+        d
+          .addOption("embed", "Block embeds")
+          .addOption("link", "Links to the block")
+          .addOption("copy", "Copied task lines")
+          .addOption("query", "Tasks plugin query")
+          .setValue(profile.outputFormat)
+          .onChange(async (v) => {
+            profile.outputFormat = v as OutputFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Ranking Prompt (System)")
+      .setDesc("Customize the system prompt that guides how the AI ranks your tasks. The prompt receives your priorities text and task list, then returns ranked task IDs. Clear this field to reset to the default prompt. Advanced users can modify the ranking logic here.")
+      .addTextArea((ta) => {
+        ta.setValue(profile.rankingPrompt)
+          .onChange(async (v) => {
+            profile.rankingPrompt = (v || "").trim() || DEFAULT_RANKING_PROMPT;
+            await this.plugin.saveSettings();
+          });
+        ta.inputEl.rows = 8;
+        ta.inputEl.style.fontFamily = "var(--font-monospace)";
+      });
+  }
+
+  private displayFilters(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Task filters" });
+    containerEl.createEl("p", {
+      text: "Rules applied to collected tasks before ranking. Tasks are dropped by each rule in the order shown.",
+      cls: "setting-item-description",
+    });
+
+    // Statuses are resolved while indexing, so wait for typing to stop before re-indexing
+    const reindex = debounce(() => this.plugin.onTaskStatusesChanged(), 1000, true);
+    new Setting(containerEl)
+      .setName("Checkbox statuses")
+      .setDesc("What each checkbox symbol means, one \"symbol status\" per line. Statuses: open, in-progress, done, cancelled. Open and in-progress tasks are ranked; done and cancelled tasks only satisfy dependencies. [ ] is always open and unlisted symbols count as open.")
+      .addTextArea((ta) => {
+        ta.setPlaceholder("/ in-progress\n- cancelled")
+          .setValue(formatStatusTable(this.plugin.settings.taskStatuses))
+          .onChange(async (v) => {
+            this.plugin.settings.taskStatuses = { " ": "open", ...parseStatusTable(v) };
+            await this.plugin.saveSettings();
+            reindex();
+          });
+        ta.inputEl.rows = 6;
+      });
+
+    const filters = this.plugin.settings.filters;
+    const listSetting = (
+      name: string,
+      desc: string,
+      placeholder: string,
+      get: () => string[],
+      set: (values: string[]) => void
+    ) =>
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addTextArea((ta) => {
+          ta.setPlaceholder(placeholder)
+            .setValue(get().join("\n"))
+            .onChange(async (v) => {
+              set(parseLines(v));
+              await this.plugin.saveSettings();
+            });
+          ta.inputEl.rows = 3;
+        });
+
+    listSetting(
+      "Exclude folders",
+      "Folders (and their subfolders) to skip, one per line.",
+      "Daily Notes/Archive",
+      () => filters.excludeFolders,
+      (v) => (filters.excludeFolders = v.map((f) => f.replace(/^\/+|\/+$/g, "")))
+    );
+    listSetting(
+      "Exclude path globs",
+      "Glob patterns matched against the note path, one per line. ** matches across folders, * within one folder.",
+      "**/Archive/**",
+      () => filters.excludeGlobs,
+      (v) => (filters.excludeGlobs = v)
+    );
+    listSetting(
+      "Only tasks tagged",
+      "If set, a task must carry at least one of these tags. Nested tags match their parent.",
+      "#work",
+      () => filters.includeTags,
+      (v) => (filters.includeTags = v)
+    );
+    listSetting(
+      "Exclude tags",
+      "Tasks carrying any of these tags are dropped.",
+      "#someday",
+      () => filters.excludeTags,
+      (v) => (filters.excludeTags = v)
+    );
+
+    new Setting(containerEl)
+      .setName("Hide tasks that haven't started")
+      .setDesc("Drop tasks whose start (🛫) or scheduled (⏳) date is after today.")
+      .addToggle((t) =>
+        t.setValue(filters.hideFutureStart).onChange(async (v) => {
+          filters.hideFutureStart = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Hide blocked tasks")
+      .setDesc("Drop tasks that wait (⛔) on another open task. When off, blocked tasks are kept but marked as blocked for the ranker. Tasks that unblock others are always marked.")
+      .addToggle((t) =>
+        t.setValue(filters.hideBlocked).onChange(async (v) => {
+          filters.hideBlocked = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Task level")
+      .setDesc("Rank every open task, only leaf tasks (no open subtasks), or only top-level tasks (not nested under another task). Parent tasks are sent along as context either way.")
+      .addDropdown((d) =>
+        d
+          .addOption("all", "All tasks")
+          .addOption("leaf", "Leaf tasks only")
+          .addOption("top-level", "Top-level tasks only")
+          .setValue(filters.taskLevel)
+          .onChange(async (v) => {
+            filters.taskLevel = v as TaskLevel;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Created age (days)")
+      .setDesc("Minimum and maximum task age by created date. Leave empty for no limit. Tasks without a created date are always kept.")
+      .addText((t) =>
+        t
+          .setPlaceholder("min")
+          .setValue(filters.minAgeDays?.toString() ?? "")
+          .onChange(async (v) => {
+            filters.minAgeDays = parseOptionalNumber(v);
+            await this.plugin.saveSettings();
+          })
+      )
+      .addText((t) =>
+        t
+          .setPlaceholder("max")
+          .setValue(filters.maxAgeDays?.toString() ?? "")
+          .onChange(async (v) => {
+            filters.maxAgeDays = parseOptionalNumber(v);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const preview = containerEl.createDiv();
+    new Setting(containerEl)
+      .setName("Preview filters")
+      .setDesc(`Collect tasks from the folders of the “${this.selectedProfile().name}” profile and show how many pass each rule.`)
+      .addButton((b) =>
+        b.setButtonText("Preview").onClick(async () => {
+          preview.empty();
+          preview.setText("Collecting tasks…");
+          try {
+            const tasks = await this.plugin.collectTasks(this.selectedProfile(), null);
+            const result = applyTaskFilters(tasks, filters, new Date(), this.plugin.dependencyGraph());
+            preview.empty();
+            const list = preview.createEl("ul");
+            list.createEl("li", { text: `Collected: ${tasks.length}` });
+            for (const step of result.steps) {
+              list.createEl("li", {
+                text: `${step.rule}: −${step.removed} → ${step.remaining}`,
+              });
+            }
+            list.createEl("li", { text: `Sent to ranking: ${result.tasks.length}` });
+          } catch (e: unknown) {
+            preview.setText(`Preview failed: ${e instanceof Error ? e.message : String(e)}`);
+          }
+        })
+      );
+    containerEl.appendChild(preview);
+  }
+
+  private displayDailyPlan(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Daily plan" });
+    containerEl.createEl("p", {
+      text: "Rank tasks automatically when a new daily note is created, and insert them under a heading in that note.",
+      cls: "setting-item-description",
+    });
+
+    const plan = this.plugin.settings.dailyPlan;
+
+    new Setting(containerEl)
+      .setName("Add a plan to new daily notes")
+      .setDesc("Runs only for notes created on this device and opened in the workspace, never for notes that arrive through sync, and at most once per note. It is skipped when the profile finds no priorities.")
+      .addToggle((t) =>
+        t.setValue(plan.enabled).onChange(async (v) => {
+          plan.enabled = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Which notes")
+      .setDesc("Today's daily note uses the folder and date format from the Periodic Notes plugin, or else the core Daily Notes plugin.")
+      .addDropdown((d) =>
+        d
+          .addOption("daily-note", "Today's daily note")
+          .addOption("pattern", "Notes matching a path pattern")
+          .setValue(plan.match)
+          .onChange(async (v) => {
+            plan.match = v as DailyPlanSettings["match"];
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (plan.match === "pattern") {
+      new Setting(containerEl)
+        .setName("Path pattern")
+        .setDesc("Glob matched against the new note's path. ** matches across folders, * within one folder.")
+        .addText((t) =>
+          t
+            .setPlaceholder(DEFAULT_SETTINGS.dailyPlan.pathPattern)
+            .setValue(plan.pathPattern)
+            .onChange(async (v) => {
+              plan.pathPattern = v.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Profile")
+      .setDesc("The ranking profile used for the plan.")
+      .addDropdown((d) => {
+        for (const p of this.plugin.settings.profiles) d.addOption(p.id, p.name);
+        const current = this.plugin.settings.profiles.some((p) => p.id === plan.profileId)
+          ? plan.profileId
+          : this.plugin.settings.profiles[0]?.id ?? "";
+        d.setValue(current).onChange(async (v) => {
+          plan.profileId = v;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Heading")
+      .setDesc("The plan is inserted right below this heading. If the note has no such heading, it is added at the end.")
+      .addText((t) =>
+        t
+          .setPlaceholder(DEFAULT_SETTINGS.dailyPlan.heading)
+          .setValue(plan.heading)
+          .onChange(async (v) => {
+            plan.heading = v.trim() || DEFAULT_SETTINGS.dailyPlan.heading;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Tasks or time")
+      .setDesc("How many tasks to plan (e.g. 5), or a time budget to fill (e.g. 3h).")
+      .addText((t) =>
+        t
+          .setPlaceholder(DEFAULT_SETTINGS.dailyPlan.target)
+          .setValue(plan.target)
+          .onChange(async (v) => {
+            plan.target = parsePickTarget(v) ? v.trim() : DEFAULT_SETTINGS.dailyPlan.target;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private displayPrivacy(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Privacy" });
+    containerEl.createEl("p", {
+      text: "Applied to everything sent to the model: tasks, priorities and past corrections. Replies are mapped back before anything is written. Offline ranking runs locally and sends nothing. Use “AI: Preview LLM payload” to see exactly what would be sent.",
+      cls: "setting-item-description",
+    });
+
+    const privacy = this.plugin.settings.privacy;
+
+    new Setting(containerEl)
+      .setName("Never send tasks tagged")
+      .setDesc("Tasks carrying any of these tags are left out of AI ranking entirely, one tag per line. Nested tags match their parent.")
+      .addTextArea((ta) => {
+        ta.setPlaceholder("#private")
+          .setValue(privacy.excludeTags.join("\n"))
+          .onChange(async (v) => {
+            privacy.excludeTags = parseLines(v);
+            await this.plugin.saveSettings();
+          });
+        ta.inputEl.rows = 3;
+      });
+
+    const patterns = new Setting(containerEl)
+      .setName("Redaction patterns")
+      .setDesc("Regular expressions, one per line, e.g. \\b[\\w.]+@[\\w.]+\\b for email addresses. Matches are sent as [redacted-1], [redacted-2], …; write /pattern/i to ignore case. Nothing is sent while a pattern is invalid.");
+    const problem = patterns.descEl.createDiv({ cls: "mod-warning" });
+    const showProblem = (lines: string[]) => {
+      const { invalid } = compileRedactPatterns(lines);
+      problem.setText(invalid.length ? `Not a valid regular expression: ${invalid.join(", ")}` : "");
+    };
+    patterns.addTextArea((ta) => {
+      ta.setPlaceholder("\\b\\d{3}-\\d{2}-\\d{4}\\b\n/acme corp/i")
+        .setValue(privacy.redactPatterns.join("\n"))
+        .onChange(async (v) => {
+          privacy.redactPatterns = parseLines(v);
+          showProblem(privacy.redactPatterns);
+          await this.plugin.saveSettings();
+        });
+      ta.inputEl.rows = 4;
+    });
+    showProblem(privacy.redactPatterns);
+
+    new Setting(containerEl)
+      .setName("Anonymize notes")
+      .setDesc("Send note names and [[links]] as note-1, note-2, … and leave out note aliases. Task IDs are replaced too whenever this or a redaction pattern is on, since block IDs often name things.")
+      .addToggle((t) =>
+        t.setValue(privacy.anonymizeNotes).onChange(async (v) => {
+          privacy.anonymizeNotes = v;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayUsage(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Usage and cost" });
+    containerEl.createEl("p", {
+      text: "Token counts reported by the provider for each AI ranking run. Costs are estimates from the price table below.",
+      cls: "setting-item-description",
+    });
+
+    const { settings } = this.plugin;
+    const stats = containerEl.createDiv({ cls: "ai-task-picker-usage" });
+    const renderStats = () => {
+      stats.empty();
+      const records = this.plugin.usage;
+      if (!records.length) {
+        stats.createEl("p", { text: "No AI ranking runs recorded yet." });
+        return;
+      }
+      const month = monthToDate(records, settings.modelPrices);
+      const limit = settings.budget.monthlyLimit;
+      stats.createEl("p", {
+        text: `This month: ${describeTotals(month)}${limit != null ? ` (budget ${formatCost(limit)})` : ""}`,
+      });
+
+      let unpriced = false;
+      const table = (title: string, rows: ReturnType<typeof usageByPeriod>) => {
+        if (!rows.length) return;
+        stats.createEl("h4", { text: title });
+        const t = stats.createEl("table");
+        const head = t.createEl("tr");
+        for (const label of ["", "Runs", "Tokens in", "Tokens out", "Cost"]) head.createEl("th", { text: label });
+        for (const { period, totals } of rows) {
+          const row = t.createEl("tr");
+          row.createEl("td", { text: period });
+          row.createEl("td", { text: String(totals.runs) });
+          row.createEl("td", { text: formatTokens(totals.promptTokens) });
+          row.createEl("td", { text: formatTokens(totals.completionTokens) });
+          row.createEl("td", { text: formatCost(totals.cost) + (totals.unpriced ? "*" : "") });
+          unpriced ||= totals.unpriced > 0;
+        }
+      };
+      table("Last 14 days", usageByPeriod(records, settings.modelPrices, "day", 14));
+      table("Last 12 months", usageByPeriod(records, settings.modelPrices, "month", 12));
+      if (unpriced) {
+        stats.createEl("p", {
+          text: "* Some runs used a model without a price and are not included in the cost.",
+          cls: "setting-item-description",
+        });
+      }
+    };
+    renderStats();
+
+    new Setting(containerEl)
+      .setName("Monthly budget (USD)")
+      .setDesc("Estimated spend per calendar month. Empty means no budget.")
+      .addText((t) =>
+        t
+          .setPlaceholder("5")
+          .setValue(settings.budget.monthlyLimit != null ? String(settings.budget.monthlyLimit) : "")
+          .onChange(async (v) => {
+            const n = Number(v.trim());
+            settings.budget.monthlyLimit = v.trim() && Number.isFinite(n) && n >= 0 ? n : null;
+            await this.plugin.saveSettings();
+            renderStats();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("When the budget is used up")
+      .setDesc("Warn keeps ranking with the model and shows a notice. Block stops sending requests: runs fall back to offline ranking if that is enabled, and fail otherwise.")
+      .addDropdown((d) =>
+        d
+          .addOption("warn", "Warn")
+          .addOption("block", "Block requests")
+          .setValue(settings.budget.action)
+          .onChange(async (v) => {
+            settings.budget.action = v as BudgetAction;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Costs are computed from the current table, so edits also reprice past runs
+    const reprice = debounce(renderStats, 500, true);
+    new Setting(containerEl)
+      .setName("Model prices")
+      .setDesc("One \"model input output\" per line, in USD per million tokens. A model matches its own line or the longest line its name starts with, e.g. gpt-4o-mini for gpt-4o-mini-2024-07-18. Ollama models without a line count as free.")
+      .addTextArea((ta) => {
+        ta.setPlaceholder("gpt-4o-mini 0.15 0.6")
+          .setValue(formatPriceTable(settings.modelPrices))
+          .onChange(async (v) => {
+            settings.modelPrices = parsePriceTable(v);
+            await this.plugin.saveSettings();
+            reprice();
+          });
+        ta.inputEl.rows = 6;
+      });
+
+    new Setting(containerEl)
+      .setName("Clear usage history")
+      .setDesc("Deletes all recorded runs, which also resets this month's spend.")
+      .addButton((b) =>
+        b.setButtonText("Clear").setWarning().onClick(async () => {
+          await this.plugin.clearUsage();
+          renderStats();
+        })
+      );
+  }
+
+  private displayReview(containerEl: HTMLElement): void {
+    containerEl.createEl("h3", { text: "Task review" });
+    containerEl.createEl("p", {
+      text: "“AI: Generate task review” writes a note with open tasks by age, tasks ranked repeatedly but never done, and what was completed since the last review.",
+      cls: "setting-item-description",
+    });
+
+    const review = this.plugin.settings.review;
+
+    new Setting(containerEl)
+      .setName("Review folder")
+      .setDesc("Review notes are created here. The folder is created if it doesn't exist.")
+      .addText((t) =>
+        t
+          .setPlaceholder(DEFAULT_SETTINGS.review.folder)
+          .setValue(review.folder)
+          .onChange(async (v) => {
+            review.folder = v.trim().replace(/^\/+|\/+$/g, "");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Stale after (days)")
+      .setDesc("Tasks created at least this long ago are offered to the model for suggestions.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.review.staleDays))
+          .setValue(String(review.staleDays))
+          .onChange(async (v) => {
+            review.staleDays = parseOptionalNumber(v) ?? DEFAULT_SETTINGS.review.staleDays;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Ranked repeatedly after")
+      .setDesc("List open tasks that rankings picked at least this many times, from the ranking history.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(DEFAULT_SETTINGS.review.repeatThreshold))
+          .setValue(String(review.repeatThreshold))
+          .onChange(async (v) => {
+            review.repeatThreshold = Math.max(1, parseOptionalNumber(v) ?? DEFAULT_SETTINGS.review.repeatThreshold);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Ask the model for suggestions")
+      .setDesc("Send stale and repeatedly ranked tasks to the model and list the ones it suggests dropping or breaking down. Uses the privacy rules and counts toward usage. Skipped in offline mode.")
+      .addToggle((t) =>
+        t.setValue(review.suggestions).onChange(async (v) => {
+          review.suggestions = v;
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+}
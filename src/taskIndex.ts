@@ -0,0 +1,202 @@
+import { App, CachedMetadata, Plugin, TAbstractFile, TFile } from "obsidian";
+import { TaskItem } from "./types";
+import { buildTaskItem, noteTitleOf, parseTasksFromContent, toDependencyContext } from "./directTaskCollection";
+import { DependencyContext } from "./dependencies";
+import { frontmatterAliases, placeTasks } from "./outline";
+import { TaskStatusTable, isActionable } from "./taskStatus";
+import { managedBlockLines } from "./managedBlock";
+import { ensureMd, normalizeFolderPath } from "./utils";
+import { warn } from "./logger";
+
+// "a/b/c.md" → "a", "a/b"
+function foldersOf(path: string): string[] {
+  const parts = path.split("/").slice(0, -1);
+  return parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+/**
+ * In-memory index of tasks across the vault, keyed by note path. Built
+ * once from the metadata cache and kept current from vault and metadata
+ * events, so ranking never has to walk or read the vault. Closed tasks are
+ * kept too, since dependencies on them count as satisfied. Files are also
+ * bucketed under every folder they sit in, so folder lookups only touch the
+ * files in those folders.
+ */
+export class TaskIndex {
+  private app: App;
+  private statuses: () => TaskStatusTable;
+  private byFile = new Map<string, TaskItem[]>();
+  private byFolder = new Map<string, Set<string>>(); // folder → indexed file paths anywhere under it
+  private built: Promise<void> | null = null;
+
+  constructor(app: App, statuses: () => TaskStatusTable) {
+    this.app = app;
+    this.statuses = statuses;
+  }
+
+  register(plugin: Plugin): void {
+    // `changed` fires once the cache has re-parsed a modified file, which is
+    // when its list items are trustworthy; vault `modify` is too early.
+    plugin.registerEvent(
+      this.app.metadataCache.on("changed", (file, data, cache) => {
+        this.indexFile(file, data, cache);
+      })
+    );
+    plugin.registerEvent(
+      this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+        const tasks = this.byFile.get(oldPath);
+        this.deleteFile(oldPath);
+        if (!tasks || !(file instanceof TFile)) return;
+        const note = ensureMd(file.path);
+        const noteTitle = noteTitleOf(file.path);
+        this.setFile(file.path, tasks.map((t) => ({ ...t, note, noteTitle })));
+      })
+    );
+    plugin.registerEvent(
+      this.app.vault.on("delete", (file: TAbstractFile) => {
+        this.deleteFile(file.path);
+      })
+    );
+  }
+
+  // Builds the index once; later calls wait for the same build
+  ready(): Promise<void> {
+    this.built ??= this.build();
+    return this.built;
+  }
+
+  // Statuses are resolved while indexing, so a changed status table needs a rebuild
+  rebuild(): Promise<void> {
+    this.byFile.clear();
+    this.byFolder.clear();
+    this.built = this.build();
+    return this.built;
+  }
+
+  private async build(): Promise<void> {
+    const files = this.app.vault.getMarkdownFiles();
+    for (const file of files) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      // Skip the read entirely when the cache says there are no tasks
+      if (cache && !cache.listItems?.some((item) => item.task !== undefined)) continue;
+      try {
+        const content = await this.app.vault.cachedRead(file);
+        this.indexFile(file, content, cache);
+      } catch (e: unknown) {
+        warn("Failed to index", file.path, e);
+      }
+    }
+  }
+
+  private indexFile(file: TFile, content: string, cache: CachedMetadata | null): void {
+    if (file.extension !== "md") return;
+    const tasks = cache
+      ? this.tasksFromCache(file, content, cache)
+      : parseTasksFromContent(file.path, content, [], this.statuses());
+    if (tasks.length) {
+      this.setFile(file.path, tasks);
+    } else {
+      this.deleteFile(file.path);
+    }
+  }
+
+  private setFile(path: string, tasks: TaskItem[]): void {
+    this.byFile.set(path, tasks);
+    for (const folder of foldersOf(path)) {
+      let paths = this.byFolder.get(folder);
+      if (!paths) this.byFolder.set(folder, (paths = new Set()));
+      paths.add(path);
+    }
+  }
+
+  private deleteFile(path: string): void {
+    if (!this.byFile.delete(path)) return;
+    for (const folder of foldersOf(path)) {
+      const paths = this.byFolder.get(folder);
+      paths?.delete(path);
+      if (paths && !paths.size) this.byFolder.delete(folder);
+    }
+  }
+
+  // Indexed files under any of `folders` (a folder may also name a single note)
+  private filesUnder(folders: string[]): Array<[string, TaskItem[]]> {
+    const paths = new Set<string>();
+    for (const raw of folders) {
+      const folder = normalizeFolderPath(raw);
+      if (!folder) continue;
+      if (this.byFile.has(folder)) paths.add(folder);
+      this.byFolder.get(folder)?.forEach((path) => paths.add(path));
+    }
+    return [...paths].map((path) => [path, this.byFile.get(path) ?? []]);
+  }
+
+  private tasksFromCache(file: TFile, content: string, cache: CachedMetadata): TaskItem[] {
+    const lines = content.split("\n");
+    const statuses = this.statuses();
+    const items = (cache.listItems ?? []).map((item) => ({
+      line: item.position.start.line,
+      // Negative for top-level items: it points at the start of the list instead
+      parent: item.parent >= 0 ? item.parent : null,
+      status: item.task ?? null,
+    }));
+    const headings = (cache.headings ?? []).map((h) => ({
+      line: h.position.start.line,
+      level: h.level,
+      text: h.heading,
+    }));
+    const placements = placeTasks(lines, items, headings, statuses);
+    const aliases = frontmatterAliases(cache.frontmatter);
+    const managed = managedBlockLines(lines);
+    const tasks: TaskItem[] = [];
+
+    for (const item of items) {
+      if (item.status == null || managed.has(item.line)) continue;
+      const task = buildTaskItem(
+        file.path,
+        lines[item.line] ?? "",
+        item.line,
+        placements.get(item.line),
+        aliases,
+        statuses
+      );
+      if (task) tasks.push(task);
+    }
+    return tasks;
+  }
+
+  /** Open tasks and closed task ids across the vault, for resolving `⛔` dependencies. */
+  getDependencyContext(): DependencyContext {
+    return toDependencyContext([...this.byFile.values()].flat());
+  }
+
+  /** The ids among `ids` whose task is checked off as done anywhere in the vault. */
+  doneIds(ids: Iterable<string>): Set<string> {
+    const wanted = new Set(ids);
+    const done = new Set<string>();
+    for (const fileTasks of this.byFile.values()) {
+      for (const task of fileTasks) {
+        if (task.status === "done" && wanted.has(task.id)) done.add(task.id);
+      }
+    }
+    return done;
+  }
+
+  /** Done tasks under any of `folders`, for reviews. */
+  getCompletedTasks(folders: string[]): TaskItem[] {
+    const tasks: TaskItem[] = [];
+    for (const [, fileTasks] of this.filesUnder(folders)) {
+      tasks.push(...fileTasks.filter((task) => task.status === "done"));
+    }
+    return tasks;
+  }
+
+  /** Open and in-progress tasks under any of `folders`, excluding `exclude` (the active note). */
+  getOpenTasks(folders: string[], exclude: TFile | null): TaskItem[] {
+    const tasks: TaskItem[] = [];
+    for (const [path, fileTasks] of this.filesUnder(folders)) {
+      if (exclude && path === exclude.path) continue;
+      tasks.push(...fileTasks.filter((task) => isActionable(task.status)));
+    }
+    return tasks;
+  }
+}
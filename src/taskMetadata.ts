@@ -0,0 +1,267 @@
+import { TaskPriority } from "./types";
+import { parseDuration } from "./utils";
+
+export interface TaskMetadata {
+  created: string | null;
+  due: string | null;
+  scheduled: string | null;
+  start: string | null;
+  done: string | null;         // ✅ completion date
+  priority: TaskPriority | null;
+  recurrence: string | null;
+  estimate: number | null; // minutes
+  dependencyId: string | null; // 🆔, what other tasks' ⛔ refer to
+  dependsOn: string[];         // ⛔ ids this task waits on
+  tags: string[];
+  fields: Record<string, string>;
+}
+
+export interface ParsedTaskLine {
+  description: string;
+  metadata: TaskMetadata;
+}
+
+type DateKey = "created" | "due" | "scheduled" | "start" | "done";
+
+const DATE = "(\\d{4}-\\d{2}-\\d{2})";
+
+// Emoji signifiers as written by the Obsidian Tasks plugin
+const EMOJI_DATES: Array<[DateKey, RegExp]> = [
+  ["due", new RegExp(`(?:📅|📆|🗓️?)\\s*${DATE}`, "u")],
+  ["scheduled", new RegExp(`(?:⏳|⌛)\\s*${DATE}`, "u")],
+  ["start", new RegExp(`🛫\\s*${DATE}`, "u")],
+  ["created", new RegExp(`➕\\s*${DATE}`, "u")],
+  ["done", new RegExp(`✅\\s*${DATE}`, "u")],
+];
+
+// Dates we recognise but do not surface (cancelled stamps)
+const IGNORED_EMOJI_DATES = new RegExp(`❌\\s*${DATE}`, "gu");
+
+const EMOJI_PRIORITIES: Array<[TaskPriority, string]> = [
+  ["highest", "🔺"],
+  ["high", "⏫"],
+  ["medium", "🔼"],
+  ["low", "🔽"],
+  ["lowest", "⏬"],
+];
+
+const SIGNIFIERS = "📅📆🗓⏳⌛🛫➕✅❌🔺⏫🔼🔽⏬🔁⏱🆔⛔";
+
+// Tasks plugin dependencies: `🆔 abc123` and `⛔ abc123,def456`
+const DEPENDENCY_ID_CHARS = "[A-Za-z0-9_-]+";
+const EMOJI_DEPENDENCY_ID = new RegExp(`🆔\\s*(${DEPENDENCY_ID_CHARS})`, "u");
+const EMOJI_DEPENDS_ON = new RegExp(
+  `⛔\\uFE0F?\\s*(${DEPENDENCY_ID_CHARS}(?:\\s*,\\s*${DEPENDENCY_ID_CHARS})*)`,
+  "u"
+);
+
+// Not a Tasks plugin signifier, but a common shorthand for an estimate
+const DURATION_UNIT = "(?:hours?|hrs?|h|minutes?|mins?|m|days?|d)";
+const EMOJI_ESTIMATE = new RegExp(`⏱️?\\s*((?:\\d+(?:\\.\\d+)?\\s*${DURATION_UNIT}?(?![a-z])\\s*)+)`, "iu");
+
+const RECURRENCE = new RegExp(`🔁\\s*([^${SIGNIFIERS}#\\[\\(]+)`, "u");
+
+const BRACKETED_FIELD = /[\[(]([A-Za-z][\w\s-]*?)::\s*([^\])]*)[\])]/g;
+
+const BARE_FIELD = /(?:^|\s)([A-Za-z][\w-]*)::\s*(.*)$/;
+
+const TAG = /(?:^|\s)#([\p{L}\p{N}_/-]+)/gu;
+
+const PRIORITY_NAMES: TaskPriority[] = ["highest", "high", "medium", "low", "lowest"];
+
+const FIELD_ALIASES: Record<
+  string,
+  DateKey | "priority" | "recurrence" | "estimate" | "dependencyId" | "dependsOn"
+> = {
+  due: "due",
+  scheduled: "scheduled",
+  start: "start",
+  created: "created",
+  completion: "done",
+  priority: "priority",
+  repeat: "recurrence",
+  recurrence: "recurrence",
+  estimate: "estimate",
+  duration: "estimate",
+  id: "dependencyId",
+  dependson: "dependsOn",
+};
+
+function parseDependencyIds(value: string): string[] {
+  return value
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => new RegExp(`^${DEPENDENCY_ID_CHARS}$`).test(id));
+}
+
+function emptyMetadata(): TaskMetadata {
+  return {
+    created: null,
+    due: null,
+    scheduled: null,
+    start: null,
+    done: null,
+    priority: null,
+    recurrence: null,
+    estimate: null,
+    dependencyId: null,
+    dependsOn: [],
+    tags: [],
+    fields: {},
+  };
+}
+
+function addDependencies(metadata: TaskMetadata, ids: string[]): void {
+  for (const id of ids) {
+    if (!metadata.dependsOn.includes(id)) metadata.dependsOn.push(id);
+  }
+}
+
+function applyField(metadata: TaskMetadata, rawKey: string, rawValue: string): void {
+  const key = rawKey.trim().toLowerCase();
+  const value = rawValue.trim();
+  const target = FIELD_ALIASES[key];
+
+  if (target === "priority") {
+    const p = value.toLowerCase() as TaskPriority;
+    if (PRIORITY_NAMES.includes(p)) metadata.priority = p;
+    return;
+  }
+  if (target === "recurrence") {
+    metadata.recurrence = value || null;
+    return;
+  }
+  if (target === "estimate") {
+    // Keep unparseable values visible as a plain field
+    const minutes = parseDuration(value);
+    if (minutes != null) metadata.estimate = minutes;
+    else metadata.fields[key] = value;
+    return;
+  }
+  if (target === "dependencyId") {
+    metadata.dependencyId = parseDependencyIds(value)[0] ?? null;
+    return;
+  }
+  if (target === "dependsOn") {
+    addDependencies(metadata, parseDependencyIds(value));
+    return;
+  }
+  if (target) {
+    const m = value.match(new RegExp(`^${DATE}`));
+    if (m && m[1]) metadata[target] = m[1];
+    return;
+  }
+  if (key) metadata.fields[key] = value;
+}
+
+// Fields that make a copied line a second dependency target or recurring series
+const IDENTITY_FIELDS = new Set(["dependencyId", "dependsOn", "recurrence"]);
+
+/**
+ * A task's text without 🆔, ⛔ and 🔁 (or their inline fields), for copies
+ * of a task that live next to the original.
+ */
+export function stripTaskIdentity(text: string): string {
+  return (text ?? "")
+    .replace(new RegExp(EMOJI_DEPENDENCY_ID.source, "gu"), " ")
+    .replace(new RegExp(EMOJI_DEPENDS_ON.source, "gu"), " ")
+    .replace(new RegExp(RECURRENCE.source, "gu"), " ")
+    .replace(BRACKETED_FIELD, (field, key: string) =>
+      IDENTITY_FIELDS.has(FIELD_ALIASES[key.trim().toLowerCase()] ?? "") ? " " : field
+    )
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+const METADATA_EMOJI = new RegExp(`[${SIGNIFIERS}]`, "u");
+const TAG_OR_FIELD = /(?:^|\s)#[\p{L}\p{N}_/-]+|[\[(][A-Za-z][\w\s-]*?::[^\])]*[\])]|(?:^|\s)[A-Za-z][\w-]*::.*$/gu;
+
+/**
+ * The runs of plain text in a task line: what sits between its tags and
+ * inline fields, up to the first metadata emoji. Other tools keep tags and
+ * fields in their descriptions, so unlike the cleaned description each run
+ * appears there verbatim.
+ */
+export function plainTextRuns(text: string): string[] {
+  const raw = text ?? "";
+  const end = raw.match(METADATA_EMOJI)?.index ?? raw.length;
+  return raw
+    .slice(0, end)
+    .split(TAG_OR_FIELD)
+    .map((run) => run.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Splits a task's text (bullet, checkbox and block ID already removed) into
+ * a clean description and structured metadata. Understands both the Tasks
+ * plugin emoji format and Dataview inline fields.
+ */
+export function parseTaskLine(text: string): ParsedTaskLine {
+  const metadata = emptyMetadata();
+  let rest = text ?? "";
+
+  for (const [key, re] of EMOJI_DATES) {
+    const m = rest.match(re);
+    if (m && m[1]) {
+      metadata[key] = m[1];
+      rest = rest.replace(re, " ");
+    }
+  }
+  rest = rest.replace(IGNORED_EMOJI_DATES, " ");
+
+  for (const [priority, emoji] of EMOJI_PRIORITIES) {
+    if (rest.includes(emoji)) {
+      metadata.priority ??= priority;
+      rest = rest.split(emoji).join(" ");
+    }
+  }
+
+  const estimate = rest.match(EMOJI_ESTIMATE);
+  const estimateMinutes = estimate && estimate[1] ? parseDuration(estimate[1]) : null;
+  if (estimateMinutes != null) {
+    metadata.estimate = estimateMinutes;
+    rest = rest.replace(EMOJI_ESTIMATE, " ");
+  }
+
+  const dependencyId = rest.match(EMOJI_DEPENDENCY_ID);
+  if (dependencyId && dependencyId[1]) {
+    metadata.dependencyId = dependencyId[1];
+    rest = rest.replace(EMOJI_DEPENDENCY_ID, " ");
+  }
+
+  const dependsOn = rest.match(EMOJI_DEPENDS_ON);
+  if (dependsOn && dependsOn[1]) {
+    addDependencies(metadata, parseDependencyIds(dependsOn[1]));
+    rest = rest.replace(EMOJI_DEPENDS_ON, " ");
+  }
+
+  const recurrence = rest.match(RECURRENCE);
+  if (recurrence && recurrence[1]) {
+    metadata.recurrence = recurrence[1].trim();
+    rest = rest.replace(RECURRENCE, " ");
+  }
+
+  rest = rest.replace(BRACKETED_FIELD, (_all, key: string, value: string) => {
+    applyField(metadata, key, value);
+    return " ";
+  });
+
+  // Dataview treats an unbracketed field as running to the end of the line
+  const bare = rest.match(BARE_FIELD);
+  if (bare && bare[1]) {
+    applyField(metadata, bare[1], bare[2] ?? "");
+    rest = rest.replace(BARE_FIELD, " ");
+  }
+
+  rest = rest.replace(TAG, (_all, tag: string) => {
+    const normalized = `#${tag}`;
+    if (!metadata.tags.includes(normalized)) metadata.tags.push(normalized);
+    return " ";
+  });
+
+  return {
+    description: rest.replace(/\s+/g, " ").trim(),
+    metadata,
+  };
+}
@@ -0,0 +1,26 @@
+import { TaskStatus } from "./types";
+
+/** What each checkbox symbol means. The blank checkbox is always open. */
+export type TaskStatusTable = Record<string, TaskStatus>;
+
+export const DEFAULT_TASK_STATUSES: TaskStatusTable = {
+  " ": "open",
+  "/": "in-progress",
+  ">": "open",      // deferred / forwarded
+  "<": "open",      // scheduled
+  "x": "done",
+  "X": "done",
+  "-": "cancelled",
+};
+
+export const TASK_STATUSES: TaskStatus[] = ["open", "in-progress", "done", "cancelled"];
+
+// Symbols missing from the table count as open, as in the Tasks plugin
+export function statusOf(symbol: string, statuses: TaskStatusTable): TaskStatus {
+  return symbol === " " ? "open" : statuses[symbol] ?? "open";
+}
+
+// Open and in-progress tasks are ranked; done and cancelled ones only resolve dependencies
+export function isActionable(status: TaskStatus): boolean {
+  return status === "open" || status === "in-progress";
+}
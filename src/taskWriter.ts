@@ -0,0 +1,49 @@
+import { App, TFile } from "obsidian";
+import { TaskItem } from "./types";
+import { blockIdOf, formatTaskLine, locateTaskLine, tokenizeTaskLine } from "./directTaskCollection";
+import { DEFAULT_TASK_STATUSES, TaskStatusTable, isActionable, statusOf } from "./taskStatus";
+import { LineChange, applyLineChanges } from "./journal";
+import { formatIsoDate } from "./utils";
+import { parseTaskLine } from "./taskMetadata";
+
+/**
+ * Marks a collected task as done in its source note, adding a Tasks-style
+ * `✅ YYYY-MM-DD` stamp (before the block ID, if any). The line is found by
+ * block ID when the task has one, otherwise by line number and text. Returns
+ * the edit that was made, or null if the task is gone or already closed.
+ * Recurring (`🔁`) tasks are refused: ticking them here would end the series
+ * without creating the next occurrence, which only the Tasks plugin does.
+ */
+export async function completeTask(
+  app: App,
+  task: TaskItem,
+  statuses: TaskStatusTable = DEFAULT_TASK_STATUSES,
+  now: Date = new Date()
+): Promise<LineChange | null> {
+  const file = app.vault.getAbstractFileByPath(task.note);
+  if (!(file instanceof TFile)) return null;
+
+  const lines = (await app.vault.read(file)).split("\n");
+  const index = locateTaskLine(lines, task);
+  const line = lines[index] ?? "";
+  const token = tokenizeTaskLine(line);
+  if (index === -1 || !token || !isActionable(statusOf(token.symbol, statuses))) return null;
+  if (parseTaskLine(token.body).metadata.recurrence) {
+    throw new Error(
+      "This is a recurring task. Complete it with the Tasks plugin's “Toggle task done” command so the next occurrence is created."
+    );
+  }
+
+  const blockId = blockIdOf(token.body);
+  const withoutId = token.body.replace(/\s*\^[A-Za-z0-9\-_]+\s*$/, "");
+  const after = formatTaskLine({
+    ...token,
+    symbol: "x",
+    body: `${withoutId} ✅ ${formatIsoDate(now)}${blockId ? ` ^${blockId}` : ""}`,
+  });
+
+  const [applied] = await applyLineChanges(app, [
+    { path: task.note, line: index, before: line, after },
+  ]);
+  return applied ?? null;
+}
@@ -0,0 +1,57 @@
+import { PickTarget, RankedTask, TaskItem } from "./types";
+import { parseDuration } from "./utils";
+
+// Used for budget planning when neither the task nor the model gave an estimate
+export const DEFAULT_ESTIMATE_MINUTES = 30;
+
+// How many ranked candidates to ask for before filling a time budget
+export const BUDGET_CANDIDATES = 30;
+
+export type EstimateSource = "task" | "model" | "default";
+
+export interface TaskEstimate {
+  minutes: number;
+  source: EstimateSource;
+}
+
+// The task's own estimate wins over the model's guess
+export function taskEstimate(task: TaskItem, ranking: RankedTask): TaskEstimate {
+  if (task.estimate != null) return { minutes: task.estimate, source: "task" };
+  if (ranking.estimateMinutes != null) return { minutes: ranking.estimateMinutes, source: "model" };
+  return { minutes: DEFAULT_ESTIMATE_MINUTES, source: "default" };
+}
+
+/**
+ * Walks the ranking in order and keeps every task that still fits in the
+ * budget, so a long task near the top doesn't crowd out everything after
+ * it but never displaces a higher-ranked task that fits.
+ */
+export function fillTimeBudget(
+  ranked: RankedTask[],
+  tasks: TaskItem[],
+  budgetMinutes: number
+): RankedTask[] {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const picked: RankedTask[] = [];
+  let used = 0;
+  for (const ranking of ranked) {
+    const task = byId.get(ranking.id);
+    if (!task) continue;
+    const { minutes } = taskEstimate(task, ranking);
+    if (used + minutes > budgetMinutes) continue;
+    picked.push(ranking);
+    used += minutes;
+  }
+  return picked;
+}
+
+// "5" is a task count; "90m", "2h" or "1h30m" is a time budget
+export function parsePickTarget(value: string): PickTarget | null {
+  const text = value.trim();
+  if (/^\d+$/.test(text)) {
+    const count = Number(text);
+    return count >= 1 ? { kind: "count", count } : null;
+  }
+  const minutes = parseDuration(text);
+  return minutes != null && minutes >= 1 ? { kind: "budget", minutes } : null;
+}
@@ -1,14 +1,50 @@
-export type TaskStatus = "open";
+// What a checkbox symbol means, through the configurable status table
+export type TaskStatus = "open" | "in-progress" | "done" | "cancelled";
+
+export type TaskPriority = "highest" | "high" | "medium" | "low" | "lowest";
 
 export interface TaskItem {
-  id: string;
+  id: string; // block ID, or a synthetic ID until one is written
+  blockId: string | null;
   note: string; // full path (with .md ensured)
-  text: string;
-  context: string | null;
+  line: number; // 0-based line in the note when collected
+  text: string; // raw task text, metadata included
+  description: string; // text with metadata, tags and fields stripped
+  context: string | null; // nearest heading
+  headingPath: string[]; // all enclosing headings, outermost first
+  parents: string[]; // enclosing tasks' descriptions, outermost first
+  parentTags: string[][]; // each enclosing task's tags, aligned with parents
+  subtasks: { total: number; open: number }; // tasks nested directly under this one
+  noteTitle: string; // file name without extension
+  noteAliases: string[]; // frontmatter aliases
   created: string | null;
+  due: string | null;
+  scheduled: string | null;
+  start: string | null;
+  done: string | null; // ✅ completion date (or completion:: field)
+  priority: TaskPriority | null;
+  recurrence: string | null;
+  estimate: number | null; // minutes, from ⏱ or an estimate:: field
+  dependencyId: string | null; // Tasks plugin 🆔 (or id:: field)
+  dependsOn: string[]; // Tasks plugin ⛔ ids (or dependsOn:: field)
+  tags: string[];
+  fields: Record<string, string>;
   status: TaskStatus;
+  statusSymbol: string; // the character between the brackets
+}
+
+export interface RankedTask {
+  id: string;
+  reason: string | null;   // short rationale for the pick
+  advances: string | null; // which stated priority the task moves forward
+  estimateMinutes: number | null; // the model's estimate when the task has none
 }
 
+// What to pick: a number of tasks, or as many as fit in a time budget
+export type PickTarget =
+  | { kind: "count"; count: number }
+  | { kind: "budget"; minutes: number };
+
 export interface TasksApi {
   getAllTasks: () => Promise<any[]> | any[];
 }
@@ -0,0 +1,185 @@
+import { LlmProviderKind } from "./settings";
+import { TokenUsage } from "./providers";
+import { formatIsoDate } from "./utils";
+
+/** What one ranking run cost, summed over all of its model calls. */
+export interface UsageRecord {
+  at: string;               // ISO time the run finished
+  provider: LlmProviderKind;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;         // model calls, batches and re-asks included
+  unreported: number;       // calls whose reply carried no token counts
+  tasks: number;            // tasks sent for ranking
+  durationMs: number;
+}
+
+// USD per million tokens, keyed by model name or name prefix
+export type ModelPriceTable = Record<string, { input: number; output: number }>;
+
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+};
+
+export type BudgetAction = "warn" | "block";
+
+export interface UsageBudgetSettings {
+  monthlyLimit: number | null; // USD; null = no budget
+  action: BudgetAction;        // once the month's estimated cost reaches the limit
+}
+
+export const DEFAULT_USAGE_BUDGET: UsageBudgetSettings = { monthlyLimit: null, action: "warn" };
+
+// Records older than this are dropped, which still covers a year of monthly totals
+const USAGE_RETENTION_DAYS = 400;
+
+/**
+ * The price of `model`: an exact entry, else the longest entry the model
+ * name starts with, so dated releases such as `gpt-4o-mini-2024-07-18` find
+ * their family. Null when the table has nothing that fits.
+ */
+export function priceFor(model: string, prices: ModelPriceTable): { input: number; output: number } | null {
+  const name = model.trim().toLowerCase();
+  let best: string | null = null;
+  for (const key of Object.keys(prices)) {
+    const k = key.toLowerCase();
+    if (name === k) return prices[key] ?? null;
+    if (name.startsWith(k) && (!best || k.length > best.length)) best = key;
+  }
+  return best ? prices[best] ?? null : null;
+}
+
+/** Estimated USD cost of a run, or null if its model has no price. Local Ollama models are free. */
+export function costOf(record: UsageRecord, prices: ModelPriceTable): number | null {
+  const price = priceFor(record.model, prices);
+  if (!price) return record.provider === "ollama" ? 0 : null;
+  return (record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+}
+
+export interface UsageTotals {
+  runs: number;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;     // of the runs that have a price
+  unpriced: number; // runs whose model has no price, left out of `cost`
+}
+
+export function totalUsage(records: UsageRecord[], prices: ModelPriceTable): UsageTotals {
+  const totals: UsageTotals = { runs: 0, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+  for (const record of records) {
+    totals.runs++;
+    totals.requests += record.requests;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    const cost = costOf(record, prices);
+    if (cost == null) totals.unpriced++;
+    else totals.cost += cost;
+  }
+  return totals;
+}
+
+// Local calendar day ("2024-05-01") or month ("2024-05") of a record
+function periodOf(at: string, period: "day" | "month"): string {
+  const day = formatIsoDate(new Date(at));
+  return period === "day" ? day : day.slice(0, 7);
+}
+
+/**
+ * Totals for the last `count` days or months, newest first. Periods without
+ * runs are left out.
+ */
+export function usageByPeriod(
+  records: UsageRecord[],
+  prices: ModelPriceTable,
+  period: "day" | "month",
+  count: number,
+  now: Date = new Date()
+): Array<{ period: string; totals: UsageTotals }> {
+  const keys: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const date =
+      period === "day"
+        ? new Date(now.getFullYear(), now.getMonth(), now.getDate() - i)
+        : new Date(now.getFullYear(), now.getMonth() - i, 1);
+    keys.push(periodOf(date.toISOString(), period));
+  }
+  return keys
+    .map((key) => ({ period: key, totals: totalUsage(records.filter((r) => periodOf(r.at, period) === key), prices) }))
+    .filter(({ totals }) => totals.runs > 0);
+}
+
+export function monthToDate(records: UsageRecord[], prices: ModelPriceTable, now: Date = new Date()): UsageTotals {
+  const month = periodOf(now.toISOString(), "month");
+  return totalUsage(records.filter((r) => periodOf(r.at, "month") === month), prices);
+}
+
+/** This month's estimated spend against the budget, or null when no budget is set. */
+export function budgetStatus(
+  records: UsageRecord[],
+  prices: ModelPriceTable,
+  budget: UsageBudgetSettings,
+  now: Date = new Date()
+): { spent: number; limit: number; exceeded: boolean } | null {
+  if (budget.monthlyLimit == null || budget.monthlyLimit < 0) return null;
+  const spent = monthToDate(records, prices, now).cost;
+  return { spent, limit: budget.monthlyLimit, exceeded: spent >= budget.monthlyLimit };
+}
+
+export function recordUsage(records: UsageRecord[], record: UsageRecord, now: Date = new Date()): UsageRecord[] {
+  const cutoff = now.getTime() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return [...records.filter((r) => Date.parse(r.at) >= cutoff), record];
+}
+
+/** Sums token counts across the model calls of one run. */
+export interface UsageMeter {
+  add(usage: TokenUsage | null): void;
+  record(fields: Pick<UsageRecord, "provider" | "model" | "tasks">, now?: Date): UsageRecord | null;
+}
+
+export function createUsageMeter(startedAt: number = Date.now()): UsageMeter {
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let requests = 0;
+  let unreported = 0;
+  return {
+    add(usage) {
+      requests++;
+      if (!usage) {
+        unreported++;
+        return;
+      }
+      promptTokens += usage.promptTokens;
+      completionTokens += usage.completionTokens;
+    },
+    // Null when no call completed, e.g. offline ranking or a failed first request
+    record(fields, now = new Date()) {
+      if (!requests) return null;
+      return {
+        at: now.toISOString(),
+        ...fields,
+        promptTokens,
+        completionTokens,
+        requests,
+        unreported,
+        durationMs: Math.max(0, now.getTime() - startedAt),
+      };
+    },
+  };
+}
+
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  return count >= 10_000 ? `${Math.round(count / 1000)}k` : String(count);
+}
@@ -9,3 +9,100 @@ export function normalizeBlockId(raw: unknown): string {
 export function ensureMd(path: string): string {
   return /\.md$/i.test(path) ? path : `${path}.md`;
 }
+
+export function formatIsoDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export function daysBetween(fromIso: string, toIso: string): number {
+  const from = Date.parse(`${fromIso}T00:00:00Z`);
+  const to = Date.parse(`${toIso}T00:00:00Z`);
+  return Math.round((to - from) / 86_400_000);
+}
+
+// `**` spans folders, `*` and `?` stay within one path segment
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  const pattern = glob.trim();
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i] ?? "";
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        i++;
+        if (pattern[i + 1] === "/") {
+          source += "(?:.*/)?";
+          i++;
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function normalizeFolderPath(path: string): string {
+  return path.trim().replace(/^\/+|\/+$/g, "");
+}
+
+export function isUnderFolder(path: string, folder: string): boolean {
+  const normalized = normalizeFolderPath(folder);
+  if (!normalized) return false;
+  return path === normalized || path.startsWith(`${normalized}/`);
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+  d: 480, day: 480, days: 480, // a working day
+};
+
+/**
+ * Parses durations such as `30m`, `1h`, `1h30m`, `1.5h` or `90 min` into
+ * minutes. A bare number counts as minutes. Returns null if unparseable.
+ */
+export function parseDuration(text: string): number | null {
+  const value = (text ?? "").trim().toLowerCase();
+  if (!value) return null;
+  if (/^\d+(?:\.\d+)?$/.test(value)) return Math.round(Number(value));
+
+  const part = /(\d+(?:\.\d+)?)\s*([a-z]+)/g;
+  let total = 0;
+  let consumed = "";
+  for (const m of value.matchAll(part)) {
+    const unit = DURATION_UNITS[m[2] ?? ""];
+    if (unit == null) return null;
+    total += Number(m[1]) * unit;
+    consumed += m[0];
+  }
+  // Reject trailing junk like "2h tomorrow"
+  if (consumed.replace(/\s+/g, "") !== value.replace(/\s+/g, "")) return null;
+  return total > 0 ? Math.round(total) : null;
+}
+
+export function formatDuration(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  const h = Math.floor(rounded / 60);
+  const m = rounded % 60;
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+}
+
+// FNV-1a; a short, stable fingerprint, not a security hash
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,11 @@
+/**
+ * What task collection and priority resolution need from a vault, so the
+ * same code runs inside Obsidian and from the command line. Paths are
+ * vault-relative with forward slashes.
+ */
+export interface VaultAdapter {
+  listMarkdownFiles(): Promise<string[]>;
+  read(path: string): Promise<string | null>; // null if the note doesn't exist
+  frontmatter(path: string): Promise<Record<string, unknown> | null>;
+  formatDate(date: Date, format: string): string; // moment.js format, for periodic note paths
+}
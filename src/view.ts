@@ -0,0 +1,220 @@
+import { ItemView, Notice, WorkspaceLeaf } from "obsidian";
+import type AiTaskPickerPlugin from "./main";
+import { RankedEntry } from "./output";
+import { ManagedBlockParams } from "./managedBlock";
+import { completeTask } from "./taskWriter";
+import { error } from "./logger";
+import { taskEstimate } from "./timeBudget";
+import { formatDuration } from "./utils";
+
+export const RANKED_TASKS_VIEW_TYPE = "ai-task-picker-ranked-tasks";
+
+export interface LatestRanking {
+  sourcePath: string; // note the priorities were read from
+  params: ManagedBlockParams;
+  entries: RankedEntry[];
+}
+
+export class RankedTasksView extends ItemView {
+  private plugin: AiTaskPickerPlugin;
+  private dragIndex: number | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: AiTaskPickerPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return RANKED_TASKS_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Ranked tasks";
+  }
+
+  getIcon(): string {
+    return "list-checks";
+  }
+
+  async onOpen(): Promise<void> {
+    this.addAction("file-input", "Insert into note", () => this.insertIntoNote());
+    this.addAction("refresh-cw", "Re-rank", () => this.rerank());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("ai-task-picker-view");
+
+    const ranking = this.plugin.latestRanking;
+    if (!ranking || ranking.entries.length === 0) {
+      contentEl.createEl("p", {
+        text: "No ranking yet. Run “AI: Insert ranked tasks at cursor” or re-rank from here.",
+        cls: "ai-task-picker-view__empty",
+      });
+      return;
+    }
+
+    const header = contentEl.createDiv({ cls: "ai-task-picker-view__header" });
+    header.createSpan({ text: `Priorities from ${ranking.sourcePath}` });
+    if (ranking.params.ranAt) {
+      header.createSpan({
+        text: ` · ${new Date(ranking.params.ranAt).toLocaleString()}`,
+      });
+    }
+    if (ranking.params.budget) {
+      const total = ranking.entries.reduce(
+        (sum, { task, ranking: r }) => sum + taskEstimate(task, r).minutes,
+        0
+      );
+      header.createSpan({
+        text: ` · ${formatDuration(total)} of ${formatDuration(ranking.params.budget)}`,
+      });
+    }
+
+    const list = contentEl.createEl("ol", { cls: "ai-task-picker-view__list" });
+    ranking.entries.forEach((entry, index) => this.renderEntry(list, entry, index));
+  }
+
+  private renderEntry(list: HTMLElement, entry: RankedEntry, index: number): void {
+    const { task, ranking } = entry;
+    const item = list.createEl("li", { cls: "ai-task-picker-view__item" });
+    item.draggable = true;
+
+    item.addEventListener("dragstart", () => {
+      this.dragIndex = index;
+      item.addClass("is-dragging");
+    });
+    item.addEventListener("dragend", () => item.removeClass("is-dragging"));
+    item.addEventListener("dragover", (e: DragEvent) => e.preventDefault());
+    item.addEventListener("drop", (e: DragEvent) => {
+      e.preventDefault();
+      this.moveEntry(this.dragIndex, index);
+      this.dragIndex = null;
+    });
+
+    const row = item.createDiv({ cls: "ai-task-picker-view__row" });
+    const checkbox = row.createEl("input", { type: "checkbox" }) as HTMLInputElement;
+    // Only the Tasks plugin creates the next occurrence of a recurring task
+    if (task.recurrence) {
+      checkbox.disabled = true;
+      checkbox.title = "Recurring task: complete it with the Tasks plugin's “Toggle task done” command";
+    }
+    checkbox.addEventListener("change", async () => {
+      checkbox.disabled = true;
+      await this.completeEntry(entry);
+    });
+
+    row.createSpan({
+      text: task.description || task.text,
+      cls: "ai-task-picker-view__text",
+    });
+
+    const remove = row.createEl("button", {
+      text: "×",
+      cls: "ai-task-picker-view__remove",
+      attr: { "aria-label": "Remove from ranking" },
+    });
+    remove.addEventListener("click", () => this.removeEntry(entry));
+
+    const meta = item.createDiv({ cls: "ai-task-picker-view__meta" });
+    const source = meta.createEl("a", {
+      text: task.note.replace(/\.md$/i, ""),
+      cls: "ai-task-picker-view__source",
+    });
+    source.addEventListener("click", (e: MouseEvent) => {
+      e.preventDefault();
+      if (task.blockId) {
+        this.app.workspace.openLinkText(`${task.note}#^${task.blockId}`, "", false);
+      } else {
+        this.app.workspace.openLinkText(task.note, "", false, { eState: { line: task.line } });
+      }
+    });
+    for (const part of [...task.headingPath, ...task.parents]) {
+      meta.createSpan({ text: ` › ${part}` });
+    }
+
+    const dates: string[] = [];
+    if (task.due) dates.push(`📅 ${task.due}`);
+    if (task.scheduled) dates.push(`⏳ ${task.scheduled}`);
+    if (task.start) dates.push(`🛫 ${task.start}`);
+    if (task.created) dates.push(`➕ ${task.created}`);
+    const estimate = taskEstimate(task, ranking);
+    if (estimate.source !== "default") {
+      dates.push(`⏱ ${estimate.source === "model" ? "~" : ""}${formatDuration(estimate.minutes)}`);
+    }
+    if (dates.length) {
+      item.createDiv({ text: dates.join("  "), cls: "ai-task-picker-view__dates" });
+    }
+
+    if (ranking.reason) {
+      item.createDiv({ text: ranking.reason, cls: "ai-task-picker-view__reason" });
+    }
+  }
+
+  private moveEntry(from: number | null, to: number): void {
+    const ranking = this.plugin.latestRanking;
+    if (!ranking || from == null || from === to) return;
+    const [moved] = ranking.entries.splice(from, 1);
+    if (!moved) return;
+    ranking.entries.splice(to, 0, moved);
+    this.plugin.addCorrection(ranking.params.ranAt, {
+      taskId: moved.task.id,
+      kind: to < from ? "promoted" : "demoted",
+      from,
+      to,
+    });
+    this.render();
+  }
+
+  private dropEntry(entry: RankedEntry, kind: "completed" | "removed"): void {
+    const ranking = this.plugin.latestRanking;
+    if (!ranking) return;
+    const index = ranking.entries.indexOf(entry);
+    if (index === -1) return;
+    ranking.entries.splice(index, 1);
+    this.plugin.addCorrection(ranking.params.ranAt, {
+      taskId: entry.task.id,
+      kind,
+      from: index,
+      to: null,
+    });
+  }
+
+  private removeEntry(entry: RankedEntry): void {
+    this.dropEntry(entry, "removed");
+    this.render();
+  }
+
+  private async completeEntry(entry: RankedEntry): Promise<void> {
+    try {
+      const change = await completeTask(this.app, entry.task, this.plugin.settings.taskStatuses);
+      if (change) {
+        await this.plugin.recordJournal("Completed task", [change]);
+      } else {
+        new Notice("Task not found or already completed in its source note.");
+      }
+      this.dropEntry(entry, "completed");
+      this.render();
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      error("Failed to complete task:", e);
+      new Notice(`AI Task Picker error: ${msg}`);
+      this.render();
+    }
+  }
+
+  private async rerank(): Promise<void> {
+    await this.plugin.rerankLatest();
+  }
+
+  private async insertIntoNote(): Promise<void> {
+    await this.plugin.insertLatestIntoActiveNote();
+    this.render();
+  }
+}